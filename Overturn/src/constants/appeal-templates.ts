@@ -0,0 +1,256 @@
+import type { DenialCategory } from "./denial.js";
+
+export interface AppealTemplateSection {
+  heading: string;
+  body: string;
+}
+
+/**
+ * An appeal letter skeleton. Text fields may use {{claim_id}}, {{denial_reason}},
+ * {{clinical_justification}}, {{denial_codes}} and {{date}}, and the provider_*,
+ * practice_*, payer_* and member_* placeholders filled from generate_appeal_draft input.
+ */
+export interface AppealTemplate {
+  id: string;
+  title: string;
+  subject: string;
+  /** CARCs (without group prefix) this template is chosen for. */
+  carc_codes: string[];
+  /** Denial categories this template is chosen for: an explicit denial_category first, or a CARC's category when no CARC matches. */
+  denial_categories: DenialCategory[];
+  argument: string;
+  sections: AppealTemplateSection[];
+  requested_remedy: string;
+  enclosures: string[];
+}
+
+export const DEFAULT_APPEAL_TEMPLATE_ID = "general";
+
+export const APPEAL_TEMPLATES: AppealTemplate[] = [
+  {
+    id: "coordination_of_benefits",
+    title: "Coordination of Benefits Appeal",
+    subject: "Request for Reprocessing - Coordination of Benefits",
+    carc_codes: ["22", "23"],
+    denial_categories: [],
+    argument:
+      "Claim **{{claim_id}}** was denied ({{denial_codes}}) on the basis that another payer is primary or has already adjudicated this service. The coverage order on file is incorrect or the primary payer's determination is now available, and this claim should be reprocessed under the correct order of benefits.",
+    sections: [
+      {
+        heading: "Denial Reason Cited by Payer",
+        body: "{{denial_reason}}",
+      },
+      {
+        heading: "Order of Benefits",
+        body: "{{clinical_justification}}",
+      },
+      {
+        heading: "Primary Payer Determination",
+        body: "The enclosed primary explanation of benefits shows how the other carrier adjudicated this service. Any balance remaining after the primary payment is the responsibility of this plan as secondary payer, or, where the other coverage has terminated or does not apply, this plan is primary and must adjudicate the claim in full.",
+      },
+    ],
+    requested_remedy:
+      "Please update the member's coordination of benefits record and reprocess claim {{claim_id}} as the correct payer, applying the primary payment shown on the enclosed EOB where applicable.",
+    enclosures: [
+      "Primary payer explanation of benefits or remittance",
+      "Member coordination of benefits questionnaire or other-coverage attestation",
+      "Copy of the original claim",
+    ],
+  },
+  {
+    id: "eligibility",
+    title: "Eligibility Appeal",
+    subject: "Request for Reconsideration - Member Eligibility",
+    carc_codes: ["26", "27", "31", "32", "33", "109", "177", "200"],
+    denial_categories: ["eligibility"],
+    argument:
+      "Claim **{{claim_id}}** was denied ({{denial_codes}}) because the payer found the member ineligible on the date of service. Coverage was in effect when the services were rendered, and the eligibility record used to adjudicate this claim is incomplete or out of date.",
+    sections: [
+      {
+        heading: "Denial Reason Cited by Payer",
+        body: "{{denial_reason}}",
+      },
+      {
+        heading: "Evidence of Coverage on the Date of Service",
+        body: "{{clinical_justification}}",
+      },
+      {
+        heading: "Eligibility Verification",
+        body: "Eligibility was verified before services were rendered, as shown by the enclosed verification. Any retroactive enrollment change or termination should not be applied to services furnished in good-faith reliance on that verification.",
+      },
+    ],
+    requested_remedy:
+      "Please correct the member's eligibility record for the date of service and reprocess claim {{claim_id}} for payment under the member's active coverage.",
+    enclosures: [
+      "Eligibility verification (270/271 response, portal screenshot or call reference)",
+      "Copy of the member's insurance card",
+      "Copy of the original claim",
+    ],
+  },
+  {
+    id: "fee_schedule_underpayment",
+    title: "Underpayment Appeal",
+    subject: "Request for Payment Adjustment - Fee Schedule Underpayment",
+    carc_codes: ["45", "59", "131"],
+    denial_categories: [],
+    argument:
+      "Claim **{{claim_id}}** was paid below the contracted rate ({{denial_codes}}). The allowed amount does not match the fee schedule in effect on the date of service, and the reduction applied is not supported by our agreement.",
+    sections: [
+      {
+        heading: "Adjustment Cited by Payer",
+        body: "{{denial_reason}}",
+      },
+      {
+        heading: "Contracted Rate Calculation",
+        body: "{{clinical_justification}}",
+      },
+      {
+        heading: "Contract Terms",
+        body: "Under the provider agreement and the fee schedule in effect on the date of service, the allowed amount for the billed services should have been calculated as shown above. Multiple-procedure, bundling or negotiated-discount reductions apply only where the contract provides for them.",
+      },
+    ],
+    requested_remedy:
+      "Please reprocess claim {{claim_id}} at the contracted fee schedule rate and remit the difference between the amount paid and the contracted allowed amount.",
+    enclosures: [
+      "Relevant fee schedule excerpt or contract amendment",
+      "Remittance advice showing the amount paid",
+      "Calculation of the expected allowed amount per line",
+    ],
+  },
+  {
+    id: "non_covered",
+    title: "Non-Covered Service Appeal",
+    subject: "Request for Coverage Determination - Non-Covered Service",
+    carc_codes: ["49", "96", "204"],
+    denial_categories: ["benefit_limit"],
+    argument:
+      "Claim **{{claim_id}}** was denied as a non-covered service ({{denial_codes}}). The service falls within the member's covered benefits as written, or, if an exclusion applies, the member's clinical circumstances warrant an exception.",
+    sections: [
+      {
+        heading: "Denial Reason Cited by Payer",
+        body: "{{denial_reason}}",
+      },
+      {
+        heading: "Applicable Benefit Language",
+        body: "The member's evidence of coverage does not exclude this service as rendered. Any exclusion must be applied as written and interpreted in the member's favor where the plan language is ambiguous.",
+      },
+      {
+        heading: "Clinical Justification",
+        body: "{{clinical_justification}}",
+      },
+    ],
+    requested_remedy:
+      "Please overturn the non-coverage determination and reprocess claim {{claim_id}} as a covered benefit, or grant a benefit exception for this member based on the clinical circumstances described above.",
+    enclosures: [
+      "Relevant excerpt of the member's evidence of coverage or summary plan description",
+      "Clinical notes supporting the service",
+      "Letter of medical necessity from the treating provider",
+    ],
+  },
+  {
+    id: "medical_necessity",
+    title: "Medical Necessity Appeal",
+    subject: "Request for Reconsideration - Medical Necessity",
+    carc_codes: ["50", "55", "56", "57", "150", "151", "152", "167"],
+    denial_categories: ["medical_necessity"],
+    argument:
+      "Claim **{{claim_id}}** was denied ({{denial_codes}}) on the basis that the services were not medically necessary. The services were reasonable and necessary to diagnose and treat the member's condition, met the applicable coverage criteria, and were documented in the medical record at the time of service.",
+    sections: [
+      {
+        heading: "Denial Reason Cited by Payer",
+        body: "{{denial_reason}}",
+      },
+      {
+        heading: "Clinical Justification",
+        body: "{{clinical_justification}}",
+      },
+      {
+        heading: "Coverage Criteria",
+        body: "The member's condition and treatment history meet the payer's published medical policy and generally accepted standards of medical practice for this service. If the denial relied on a specific clinical criterion, please identify it and the reviewer's credentials so it can be addressed directly, and have this appeal reviewed by a physician in the same or a similar specialty.",
+      },
+    ],
+    requested_remedy:
+      "Please overturn the medical necessity denial and reprocess claim {{claim_id}} for payment.",
+    enclosures: [
+      "Letter of medical necessity from the treating provider",
+      "Clinical notes and test results supporting the service",
+      "Applicable medical policy or clinical guideline excerpt",
+    ],
+  },
+  {
+    id: "prior_authorization",
+    title: "Prior Authorization Appeal",
+    subject: "Request for Reconsideration - Prior Authorization",
+    carc_codes: ["15", "39", "62", "197", "198", "243"],
+    denial_categories: ["authorization"],
+    argument:
+      "Claim **{{claim_id}}** was denied ({{denial_codes}}) for missing or invalid prior authorization. Authorization was obtained for these services, or the circumstances of care did not allow it to be obtained in advance and the services were medically necessary.",
+    sections: [
+      {
+        heading: "Denial Reason Cited by Payer",
+        body: "{{denial_reason}}",
+      },
+      {
+        heading: "Authorization History",
+        body: "{{clinical_justification}}",
+      },
+      {
+        heading: "Request for Retroactive Review",
+        body: "Where an authorization is on file, it covers the services, dates and provider billed on this claim. Where it is not, please review the services retroactively for medical necessity rather than denying them on an administrative basis alone.",
+      },
+    ],
+    requested_remedy:
+      "Please apply the authorization on file, or complete a retroactive medical necessity review, and reprocess claim {{claim_id}} for payment.",
+    enclosures: [
+      "Authorization approval or reference number, with call or portal records",
+      "Clinical notes supporting the services",
+      "Copy of the original claim",
+    ],
+  },
+  {
+    id: "missing_information",
+    title: "Corrected Information Appeal",
+    subject: "Submission of Requested Information",
+    carc_codes: ["16", "226", "227", "252"],
+    denial_categories: [],
+    argument:
+      "Claim **{{claim_id}}** was denied ({{denial_codes}}) because information needed for adjudication was missing or incomplete. The requested information is provided below and enclosed, and the claim is now complete for review.",
+    sections: [
+      {
+        heading: "Information Requested by Payer",
+        body: "{{denial_reason}}",
+      },
+      {
+        heading: "Information Provided",
+        body: "{{clinical_justification}}",
+      },
+    ],
+    requested_remedy:
+      "Please attach the enclosed information to claim {{claim_id}} and reprocess it for payment. If anything further is required, please identify the specific item rather than denying the claim again.",
+    enclosures: [
+      "Requested documentation or corrected claim data",
+      "Copy of the denial or request for information",
+    ],
+  },
+  {
+    id: DEFAULT_APPEAL_TEMPLATE_ID,
+    title: "Appeal Letter",
+    subject: "Request for Reconsideration",
+    carc_codes: [],
+    denial_categories: [],
+    argument: "I am writing to formally appeal the denial of claim **{{claim_id}}**.",
+    sections: [
+      {
+        heading: "Denial Reason Cited by Payer",
+        body: "{{denial_reason}}",
+      },
+      {
+        heading: "Clinical Justification",
+        body: "{{clinical_justification}}",
+      },
+    ],
+    requested_remedy:
+      "Based on the documentation and clinical rationale above, please reconsider and reprocess this claim for payment.",
+    enclosures: [],
+  },
+];
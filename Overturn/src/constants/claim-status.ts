@@ -0,0 +1,227 @@
+export type ClaimStatusDisposition =
+  | "acknowledged"
+  | "accepted"
+  | "rejected"
+  | "pending"
+  | "finalized"
+  | "error";
+
+/** STC01-1 claim status category codes (X12 code list 507). */
+export const ClaimStatusCategoryMapping = {
+  A0: {
+    title: "Acknowledgement/Forwarded",
+    explanation:
+      "The claim was received and forwarded to another entity, usually by a clearinghouse.",
+    disposition: "acknowledged",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "No action; watch for an acknowledgement from the payer it was forwarded to.",
+  },
+  A1: {
+    title: "Acknowledgement/Receipt",
+    explanation:
+      "The claim was received. This is not an acceptance into the adjudication system.",
+    disposition: "acknowledged",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "No action; wait for acceptance or rejection.",
+  },
+  A2: {
+    title: "Acknowledgement/Acceptance into adjudication system",
+    explanation:
+      "The claim passed front-end edits and entered the payer's adjudication system.",
+    disposition: "accepted",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "No action; any denial will arrive on the 835 remittance.",
+  },
+  A3: {
+    title: "Acknowledgement/Returned as unprocessable claim",
+    explanation:
+      "The claim failed front-end edits and was returned without entering adjudication.",
+    disposition: "rejected",
+    requiresCorrectedResubmission: true,
+    recommendedAction:
+      "Correct the fields named in the status codes and submit a new claim; there is nothing to appeal.",
+  },
+  A4: {
+    title: "Acknowledgement/Not Found",
+    explanation:
+      "The payer could not find the claim, member or provider referenced in the submission.",
+    disposition: "rejected",
+    requiresCorrectedResubmission: true,
+    recommendedAction:
+      "Verify member and provider identifiers against the payer's records, then resubmit.",
+  },
+  A5: {
+    title: "Acknowledgement/Split Claim",
+    explanation:
+      "The payer split the claim into multiple claims for processing.",
+    disposition: "accepted",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "No action; track each resulting claim on the remittance.",
+  },
+  A6: {
+    title: "Acknowledgement/Rejected for Missing Information",
+    explanation:
+      "The claim was rejected at the front end because required information was missing.",
+    disposition: "rejected",
+    requiresCorrectedResubmission: true,
+    recommendedAction:
+      "Add the missing information named in the status codes and submit a corrected claim.",
+  },
+  A7: {
+    title: "Acknowledgement/Rejected for Invalid Information",
+    explanation:
+      "The claim was rejected at the front end because a value was invalid.",
+    disposition: "rejected",
+    requiresCorrectedResubmission: true,
+    recommendedAction:
+      "Fix the invalid value named in the status codes and submit a corrected claim.",
+  },
+  A8: {
+    title: "Acknowledgement/Rejected for relational field in error",
+    explanation:
+      "Two or more fields on the claim are inconsistent with each other.",
+    disposition: "rejected",
+    requiresCorrectedResubmission: true,
+    recommendedAction:
+      "Reconcile the related fields named in the status codes and submit a corrected claim.",
+  },
+  E0: {
+    title: "Response not possible - error on submitted request data",
+    explanation: "The submission itself could not be read.",
+    disposition: "error",
+    requiresCorrectedResubmission: true,
+    recommendedAction: "Check the file with your clearinghouse and resubmit.",
+  },
+  E1: {
+    title: "Response not possible - System Status",
+    explanation: "The payer's system could not respond.",
+    disposition: "error",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "Wait and check claim status again later.",
+  },
+  P0: {
+    title: "Pending: Adjudication/Details",
+    explanation: "The claim is pending adjudication.",
+    disposition: "pending",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "No action; follow up if it stays pending past the payer's prompt-pay window.",
+  },
+  P1: {
+    title: "Pending/In Process",
+    explanation: "The claim is in process.",
+    disposition: "pending",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "No action; follow up if it stays pending past the payer's prompt-pay window.",
+  },
+  P2: {
+    title: "Pending/Payer Review",
+    explanation: "The claim is pending payer review.",
+    disposition: "pending",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "Be ready to answer a records request.",
+  },
+  P3: {
+    title: "Pending/Provider Requested Information",
+    explanation: "The payer is waiting on information from the provider.",
+    disposition: "pending",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "Send the requested information; do not resubmit the claim.",
+  },
+  P4: {
+    title: "Pending/Patient Requested Information",
+    explanation: "The payer is waiting on information from the patient.",
+    disposition: "pending",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "Ask the patient to respond to the payer.",
+  },
+  F0: {
+    title: "Finalized",
+    explanation: "The claim has completed adjudication.",
+    disposition: "finalized",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "Review the 835 remittance for the outcome.",
+  },
+  F1: {
+    title: "Finalized/Payment",
+    explanation: "The claim was adjudicated and paid.",
+    disposition: "finalized",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "Post the payment from the 835 remittance.",
+  },
+  F2: {
+    title: "Finalized/Denial",
+    explanation: "The claim was adjudicated and denied.",
+    disposition: "finalized",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "Review the CARC/RARC codes on the 835 and appeal if warranted.",
+  },
+  F3: {
+    title: "Finalized/Revised",
+    explanation: "The adjudication was revised.",
+    disposition: "finalized",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "Review the revised remittance.",
+  },
+  F4: {
+    title: "Finalized/Adjudication Complete - No payment forthcoming",
+    explanation: "Adjudication is complete and no payment will be issued.",
+    disposition: "finalized",
+    requiresCorrectedResubmission: false,
+    recommendedAction: "Review the CARC/RARC codes on the 835 and appeal if warranted.",
+  },
+} as const satisfies Record<
+  string,
+  {
+    title: string;
+    explanation: string;
+    disposition: ClaimStatusDisposition;
+    requiresCorrectedResubmission: boolean;
+    recommendedAction: string;
+  }
+>;
+
+/** STC01-2 claim status codes (X12 code list 508): a subset of common front-end codes, not the full list. */
+export const ClaimStatusCodeMapping: Record<string, string> = {
+  "0": "Cannot provide further status electronically",
+  "1": "For more detailed information, see remittance advice",
+  "3": "Claim has been adjudicated and is awaiting payment cycle",
+  "19": "Entity acknowledges receipt of claim/encounter",
+  "20": "Accepted for processing",
+  "21": "Missing or invalid information",
+  "33": "Subscriber and subscriber id not found",
+  "35": "Claim/encounter not found",
+  "54": "Duplicate of a previously processed claim/line",
+  "78": "Duplicate of an existing claim/line, awaiting processing",
+  "97": "Patient eligibility not found with entity",
+  "116": "Claim submitted to incorrect payer",
+  "164": "Entity's contract/member number",
+  "187": "Date(s) of service",
+  "247": "Line information",
+  "254": "Principal diagnosis code",
+  "255": "Diagnosis code",
+  "400": "Claim is out of balance",
+  "454": "Procedure code for services rendered",
+  "496": "Submitter not approved for electronic claim submissions on behalf of this entity",
+  "562": "Entity's National Provider Identifier (NPI)",
+};
+
+export const CLAIM_STATUS_CODE_LIST_NOTE =
+  "Only a subset of X12 code list 508 (claim status codes) is bundled. Codes outside it are reported with status_code_found false; look them up in the published Claim Status Codes list at x12.org.";
+
+/** STC01-3 entity identifier codes naming whose data triggered the status. */
+export const StatusEntityMapping: Record<string, string> = {
+  "1P": "Provider",
+  "40": "Receiver",
+  "41": "Submitter",
+  "71": "Attending Physician",
+  "72": "Operating Physician",
+  "77": "Service Location",
+  "82": "Rendering Provider",
+  "85": "Billing Provider",
+  "87": "Pay-to Provider",
+  DK: "Ordering Physician",
+  DN: "Referring Provider",
+  IL: "Insured or Subscriber",
+  PR: "Payer",
+  QC: "Patient",
+};
@@ -1,40 +1,14 @@
-export const DenialMapping = {
-  "16": {
-    title: "Claim/service lacks information or has submission/billing error(s)",
-    explanation:
-      "The payer needs corrected or additional claim information before adjudication can complete.",
-    recommendedAction:
-      "Validate required claim fields, attach missing documentation, and resubmit a corrected claim.",
-  },
-  "22": {
-    title: "This care may be covered by another payer per coordination of benefits",
-    explanation:
-      "The payer believes another plan should process the claim first.",
-    recommendedAction:
-      "Confirm primary payer, submit to correct primary insurer, then bill secondary with EOB.",
-  },
-  "27": {
-    title: "Expenses incurred after coverage terminated",
-    explanation:
-      "Date of service falls outside the patient's active coverage period.",
-    recommendedAction:
-      "Verify eligibility dates, correct member details if needed, or redirect to self-pay/alternate coverage.",
-  },
-  "45": {
-    title: "Charge exceeds fee schedule/maximum allowable or contracted amount",
-    explanation:
-      "The billed amount is above contractual or regulatory allowable rates.",
-    recommendedAction:
-      "Review payer contract terms, reconcile expected allowable, and adjust or appeal as contractually appropriate.",
-  },
-  "96": {
-    title: "Non-covered charge(s)",
-    explanation:
-      "The service is considered non-covered under the member's plan benefit design.",
-    recommendedAction:
-      "Review plan exclusions and policy criteria, then submit medical necessity support if an exception is warranted.",
-  },
-} as const;
+/**
+ * CARCs the regex parser accepts as bare numbers. Any other standalone number
+ * is too ambiguous to treat as a denial code without a group prefix.
+ */
+export const STANDALONE_CARC_CODES = ["16", "22", "27", "45", "96"] as const;
+
+/**
+ * CARCs that explain a reduction or cost share on a paid line rather than a
+ * denial. They rank after every other CARC when choosing an appeal template.
+ */
+export const ADJUSTMENT_ONLY_CARC_CODES = new Set(["1", "2", "3", "45", "59", "131", "253"]);
 
 export const denialKnowledgeBase: Record<string, string> = {
   "16": "CARC 16 often indicates missing claim data, invalid coding details, or absent documentation required for payment review.",
@@ -43,3 +17,185 @@ export const denialKnowledgeBase: Record<string, string> = {
   "45": "CARC 45 is commonly tied to fee schedule reductions, contractual adjustments, or maximum allowable limits.",
   "96": "CARC 96 is used for non-covered services and may require benefit interpretation or exception-based appeal support.",
 };
+
+export type LiableParty = "provider" | "patient" | "payer" | "unknown";
+
+export const GroupCodeMapping = {
+  CO: {
+    title: "Contractual Obligation",
+    liableParty: "provider",
+    providerCanBillPatient: false,
+    actionNote:
+      "Contractual adjustment: write off or appeal with the payer; do not transfer this amount to the patient.",
+  },
+  PR: {
+    title: "Patient Responsibility",
+    liableParty: "patient",
+    providerCanBillPatient: true,
+    actionNote:
+      "Patient responsibility: bill the patient or any secondary coverage with this EOB attached.",
+  },
+  OA: {
+    title: "Other Adjustment",
+    liableParty: "unknown",
+    providerCanBillPatient: false,
+    actionNote:
+      "Other adjustment: usually a coordination-of-benefits or prior-payer amount; reconcile with other payers before billing anyone.",
+  },
+  PI: {
+    title: "Payer Initiated Reduction",
+    liableParty: "provider",
+    providerCanBillPatient: false,
+    actionNote:
+      "Payer-initiated reduction with no contractual basis: the patient cannot be billed, and the reduction is often appealable.",
+  },
+  CR: {
+    title: "Correction and Reversal",
+    liableParty: "payer",
+    providerCanBillPatient: false,
+    actionNote:
+      "Correction or reversal of a prior adjudication: reconcile against the original remittance before taking action.",
+  },
+} as const satisfies Record<
+  string,
+  {
+    title: string;
+    liableParty: LiableParty;
+    providerCanBillPatient: boolean;
+    actionNote: string;
+  }
+>;
+
+export type GroupCode = keyof typeof GroupCodeMapping;
+
+/** The group codes above as a regex alternation ("CO|PR|OA|PI|CR"). */
+export const GROUP_CODE_PATTERN = Object.keys(GroupCodeMapping).join("|");
+
+/** Mirrors `DenialCategory` in appeal-writer-mcp/src/types.ts. */
+export type DenialCategory =
+  | "medical_necessity"
+  | "authorization"
+  | "benefit_limit"
+  | "coding"
+  | "eligibility"
+  | "timely_filing"
+  | "other";
+
+/** Appeal category implied by a CARC on its own. */
+export const CarcCategoryMapping: Record<string, DenialCategory> = {
+  "50": "medical_necessity",
+  "55": "medical_necessity",
+  "56": "medical_necessity",
+  "57": "medical_necessity",
+  "150": "medical_necessity",
+  "151": "medical_necessity",
+  "152": "medical_necessity",
+  "167": "medical_necessity",
+  "15": "authorization",
+  "39": "authorization",
+  "62": "authorization",
+  "197": "authorization",
+  "198": "authorization",
+  "243": "authorization",
+  "35": "benefit_limit",
+  "96": "benefit_limit",
+  "119": "benefit_limit",
+  "149": "benefit_limit",
+  "204": "benefit_limit",
+  "273": "benefit_limit",
+  "4": "coding",
+  "5": "coding",
+  "6": "coding",
+  "7": "coding",
+  "8": "coding",
+  "9": "coding",
+  "10": "coding",
+  "11": "coding",
+  "16": "coding",
+  "97": "coding",
+  "181": "coding",
+  "182": "coding",
+  "189": "coding",
+  "234": "coding",
+  "236": "coding",
+  B15: "coding",
+  "26": "eligibility",
+  "27": "eligibility",
+  "31": "eligibility",
+  "32": "eligibility",
+  "33": "eligibility",
+  "109": "eligibility",
+  "177": "eligibility",
+  "200": "eligibility",
+  "29": "timely_filing",
+};
+
+/** Remark codes that point at an appeal category more precisely than their CARC. */
+export const RarcCategoryMapping: Record<string, DenialCategory> = {
+  M25: "medical_necessity",
+  N115: "medical_necessity",
+  N180: "medical_necessity",
+  N386: "medical_necessity",
+  M62: "authorization",
+  N130: "benefit_limit",
+  N362: "benefit_limit",
+  N425: "benefit_limit",
+  M15: "coding",
+  M20: "coding",
+  M51: "coding",
+  M76: "coding",
+  MA63: "coding",
+  N19: "coding",
+  N20: "coding",
+  N56: "coding",
+  N122: "coding",
+  N519: "coding",
+  N657: "coding",
+  MA27: "eligibility",
+  MA61: "eligibility",
+  N30: "eligibility",
+};
+
+/** Phrases in the denial reason text or policy references that signal a category. */
+export const DenialCategoryKeywords: Record<
+  Exclude<DenialCategory, "other">,
+  RegExp[]
+> = {
+  medical_necessity: [
+    /medical(?:ly)?\s+necess\w*/i,
+    /not\s+reasonable\s+and\s+necessary/i,
+    /clinical\s+(?:criteria|guidelines|policy)/i,
+    /experimental|investigational/i,
+    /\b(?:LCD|NCD)\b|coverage\s+determination/i,
+    /level\s+of\s+care/i,
+  ],
+  authorization: [
+    /prior\s+auth\w*|pre-?auth\w*|pre-?certif\w*/i,
+    /authorization\s+(?:was\s+)?(?:not|never)\s+(?:obtained|on\s+file|requested)/i,
+    /\breferral\b/i,
+  ],
+  benefit_limit: [
+    /benefit\s+(?:maximum|limit)|maximum\s+benefit/i,
+    /not\s+a\s+covered\s+benefit|non-?covered\s+(?:service|benefit)/i,
+    /exceeds?\s+(?:the\s+)?(?:visit|unit|frequency|plan)\s+limit/i,
+    /\bexclu(?:ded|sion)\b/i,
+  ],
+  coding: [
+    /\b(?:CPT|HCPCS|ICD-?10|diagnosis|procedure)\s+code/i,
+    /\bmodifier\b/i,
+    /\b(?:un)?bundl\w*/i,
+    /inconsistent\s+with|invalid\s+code|coding\s+error/i,
+    /\bNCCI\b/i,
+  ],
+  eligibility: [
+    /not\s+(?:eligible|covered)\s+(?:on|at\s+the\s+time)/i,
+    /coverage\s+(?:terminated|ended|was\s+not\s+in\s+effect)/i,
+    /\beligibility\b/i,
+    /member\s+not\s+found|not\s+an?\s+(?:active|eligible)\s+member/i,
+  ],
+  timely_filing: [
+    /timely\s+filing/i,
+    /filing\s+(?:limit|deadline)/i,
+    /(?:received|submitted|filed)\s+(?:after|beyond|past)\s+the/i,
+  ],
+};
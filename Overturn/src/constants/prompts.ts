@@ -2,15 +2,90 @@ export const DENIAL_PARSING_PROMPTS = {
   system: [
     "You extract structured insurance denial fields from OCR text.",
     "Return only strict JSON with keys:",
-    "claim_id, patient_name, patient_address, identifiers, denial_codes, cpt_codes, policy_references, denial_reason_text.",
-    "For unknown values use 'UNKNOWN' for strings and [] for arrays.",
+    "claim_id, patient_name, patient_address, identifiers, denial_codes, remark_codes, cpt_codes, diagnosis_codes, policy_references, denial_reason_text, letter_date, appeal_window_days, appeal_submission_methods, appeals_address, appeals_fax, payer_name, provider_name, amounts, service_lines.",
+    "For unknown values use 'UNKNOWN' for strings, null for numbers and [] for arrays.",
     "Never include markdown, prose, or extra keys.",
+    "identifiers is an array of {label, value} objects; use the labels member_id, subscriber_id, policy, authorization, rendering_provider_npi, billing_provider_npi, tax_id and payer_id where they apply, and copy values exactly as printed.",
     "denial_codes must include only CARC/group denial codes like CO-45, PR-1, 16, 45.",
+    "remark_codes must include only remittance advice remark codes (RARCs) in the N, M and MA series, like N130, M15, MA130; never put them in denial_codes.",
     "cpt_codes must include only CPT/HCPCS codes like 97110, 99213, G0283, J1885.",
+    "diagnosis_codes must include only ICD-10-CM diagnosis codes like E11.9, M54.50, S83.511A, written with the dot; never put them in cpt_codes.",
     "Put policy bulletin references (e.g., Clinical Policy Bulletin #045) in policy_references, not denial_codes.",
+    "letter_date is the date printed on the letter, as YYYY-MM-DD.",
+    "appeal_window_days is the number of days the member or provider has to appeal (e.g., 'within 180 days' is 180; convert months to days at 30 per month).",
+    "appeal_submission_methods lists how an appeal may be sent, using only: mail, fax, portal, phone, other.",
+    "appeals_address is the mailing address for appeals and appeals_fax is the fax number for appeals.",
+    "payer_name is the insurance company or health plan that issued the denial; provider_name is the rendering or billing provider (person or practice) the claim was filed by.",
+    "amounts is an object with claim-level totals as plain numbers (no $ or commas), or null when not stated: billed, allowed, paid, adjustments (total payer adjustments/write-offs, excluding patient responsibility), patient_responsibility.",
+    "service_lines is an array with one object per billed line: procedure_code, modifiers (array), units (number or null), service_date (YYYY-MM-DD or null), amounts (same keys as above, for that line), denial_codes and remark_codes (the codes applied to that line only).",
   ].join(" "),
   userTemplate: (rawText: string) =>
-    ["Extract denial fields from this text.", "", "Text:", rawText.slice(0, 15000)].join(
-      "\n"
-    ),
+    ["Extract denial fields from this text.", "", "Text:", rawText].join("\n"),
+  chunkTemplate: (
+    chunkText: string,
+    chunk: { index: number; total: number; pages: number[] }
+  ) =>
+    [
+      `Extract denial fields from part ${chunk.index + 1} of ${chunk.total} of a multi-page denial packet (${chunk.pages.length === 1 ? "page" : "pages"} ${chunk.pages.join(", ")}).`,
+      "Report only values that appear in this part; use UNKNOWN, null or [] for anything that is not in it.",
+      "",
+      "Text:",
+      chunkText,
+    ].join("\n"),
+} as const;
+
+const documentStep = (filePath: string | undefined, claimId: string | undefined) =>
+  filePath
+    ? /\.(?:835|edi|x12|txt)$/i.test(filePath)
+      ? `1. If ${filePath} is an X12 835 remittance, call \`extract_from_835\` with file_path "${filePath}"${claimId ? ` and use the claim whose claim_id is ${claimId}` : ""}; its parsed_fields already hold the codes. Otherwise call \`extract_claim_data\` with file_path "${filePath}".`
+      : `1. Call \`extract_claim_data\` with file_path "${filePath}" and read the claim ID, member, payer, dates of service, CARC/group codes (e.g. CO-50), RARCs (N/M/MA codes), CPT and ICD-10 codes and the denial reason from raw_text.`
+    : `1. Ask the user for the denial letter, EOB or remittance${claimId ? ` for claim ${claimId}` : ""} (a file path or the document itself), then call \`extract_claim_data\` with it and read the claim ID, codes and denial reason from raw_text.`;
+
+/** User messages for the MCP prompts that walk a client model through the denial-to-appeal tools. */
+export const WORKFLOW_PROMPTS = {
+  triageDenial: (args: { file_path?: string; claim_id?: string }) =>
+    [
+      `Triage this insurance denial${args.claim_id ? ` for claim ${args.claim_id}` : ""} and tell me what to do next.`,
+      "",
+      documentStep(args.file_path, args.claim_id),
+      "2. Call `analyze_denial_codes` with denial_codes set to the CARC/group codes, remark_codes set to the RARCs and as_of_date set to the date of service. Pass service_lines when different lines carry different codes.",
+      "3. Report, in a short table or list:",
+      "   - what was denied and why, in plain language (results[].title and explanation);",
+      "   - who is financially liable and whether the patient can be billed (group_summary);",
+      "   - whether this needs an appeal, a corrected claim, a records submission, or a write-off (recommended_action);",
+      "   - the appeal deadline if the letter states one, and any missing information that blocks an appeal.",
+      "4. If an appeal is warranted, offer to draft it with `generate_appeal_draft`. Do not draft it yet.",
+    ].join("\n"),
+  draftAppeal: (args: {
+    file_path: string;
+    claim_id?: string;
+    provider_name?: string;
+    practice_name?: string;
+  }) =>
+    [
+      `Draft an appeal for the denial in ${args.file_path}${args.claim_id ? ` (claim ${args.claim_id})` : ""}.`,
+      "",
+      documentStep(args.file_path, args.claim_id),
+      "2. Call `analyze_denial_codes` with the CARC/group codes, RARCs and date of service. Use the results to decide the appeal argument and what evidence it needs.",
+      "3. Call `generate_appeal_draft` with:",
+      "   - original_claim_id, denial_reason (the payer's stated reason) and denial_codes;",
+      "   - clinical_justification_text: the facts that answer the denial reason, taken from the document and anything the user has told you; never invent clinical facts;",
+      "   - member (name, member_id, date_of_birth), payer (name, appeals_address, appeals_fax), dates_of_service, procedure_codes and diagnosis_codes from the document;",
+      `   - provider and practice${args.provider_name || args.practice_name ? ` (${[args.provider_name && `provider name: ${args.provider_name}`, args.practice_name && `practice name: ${args.practice_name}`].filter(Boolean).join(", ")})` : " if the user has given them"}.`,
+      "4. If the denial is for medical necessity or a non-covered service (e.g. CARC 50 or 96), also call `generate_medical_necessity_letter` with the diagnosis and procedure codes and ask the user for treatment history, failed conservative therapies and functional status you could not find.",
+      "5. Show the draft, then list missing_placeholders as questions for the user. Offer output_formats docx or pdf once they are filled in.",
+    ].join("\n"),
+  explainEobToPatient: (args: { file_path: string; claim_id?: string }) =>
+    [
+      `Explain the explanation of benefits in ${args.file_path}${args.claim_id ? ` for claim ${args.claim_id}` : ""} to the patient.`,
+      "",
+      documentStep(args.file_path, args.claim_id),
+      "2. Call `analyze_denial_codes` with the adjustment codes and date of service so each code has an explanation and a liable party.",
+      "3. Write to the patient in plain language at about a 6th-grade reading level, without codes or billing jargon:",
+      "   - what service this was and when;",
+      "   - what the provider billed, what the plan allowed and paid, and what the patient may owe (only amounts with PR/patient-responsibility codes);",
+      "   - amounts under CO/contractual codes are not the patient's to pay; say so plainly;",
+      "   - if something was denied, why, and whether the provider's office is likely to appeal or the patient needs to act (for example update other insurance or call the plan).",
+      "4. Close with who to call with questions. Do not give legal or medical advice.",
+    ].join("\n"),
 } as const;
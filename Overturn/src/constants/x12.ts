@@ -0,0 +1,22 @@
+/** CLP02 claim status codes used in 835 remittances. */
+export const ClaimPaymentStatusMapping: Record<string, string> = {
+  "1": "Processed as primary",
+  "2": "Processed as secondary",
+  "3": "Processed as tertiary",
+  "4": "Denied",
+  "19": "Processed as primary, forwarded to additional payer(s)",
+  "20": "Processed as secondary, forwarded to additional payer(s)",
+  "21": "Processed as tertiary, forwarded to additional payer(s)",
+  "22": "Reversal of previous payment",
+  "23": "Not our claim, forwarded to additional payer(s)",
+  "25": "Predetermination pricing only - no payment",
+};
+
+/** BPR04 payment method codes. */
+export const PaymentMethodMapping: Record<string, string> = {
+  ACH: "Automated clearing house (EFT)",
+  BOP: "Financial institution option",
+  CHK: "Check",
+  FWT: "Federal reserve funds/wire transfer",
+  NON: "Non-payment data",
+};
@@ -1,46 +1,372 @@
 import { z } from "zod";
 
-export const extractClaimDataSchema = z.object({
+const documentSourceFields = {
   file_path: z
     .string()
     .min(1)
-    .describe("Absolute or workspace-relative path to the denial PDF file"),
-});
+    .optional()
+    .describe(
+      "Absolute or workspace-relative path to the denial document (PDF, DOCX, TIFF fax, JPEG/PNG photo or plain text; the type is detected from its content)"
+    ),
+  content_base64: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "The denial document's bytes as base64 (a data: URL is also accepted), used when no file_path is given"
+    ),
+  filename: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Original filename for inline content, used in the returned metadata"),
+};
+
+const denialCategorySchema = z.enum([
+  "medical_necessity",
+  "authorization",
+  "benefit_limit",
+  "coding",
+  "eligibility",
+  "timely_filing",
+  "other",
+]);
+
+const letterOutputFormatsSchema = z
+  .array(z.enum(["markdown", "docx", "pdf"]))
+  .default(["markdown"])
+  .describe(
+    "Formats to return. docx and pdf are print-ready letters with letterhead, signature block and page numbers, embedded as base64 resources or written to APPEAL_OUTPUT_DIR"
+  );
+
+const hasDocumentSource = (input: { file_path?: string; content_base64?: string }) =>
+  Boolean(input.file_path || input.content_base64);
+
+export const extractClaimDataSchema = z
+  .object(documentSourceFields)
+  .refine(hasDocumentSource, {
+    message: "Provide either file_path or content_base64.",
+  });
 
 export const analyzeDenialCodesSchema = z.object({
   denial_codes: z
     .array(z.string().min(1))
-    .min(1)
+    .default([])
     .describe("Array of payer denial codes, e.g. ['CO-45', '16']"),
-});
+  remark_codes: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      "RARC remark codes (N, M, MA series) reported with the denial codes, e.g. ['N130', 'M15']"
+    ),
+  as_of_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+    .optional()
+    .describe(
+      "Date of service (YYYY-MM-DD); picks between revised CARC texts using approximate bundled dates. Codes without a bundled start date report active_on_date null"
+    ),
+  service_lines: z
+    .array(
+      z.object({
+        procedure_code: z.string().min(1).optional(),
+        modifiers: z.array(z.string()).default([]),
+        service_date: z
+          .string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+          .optional(),
+        denial_codes: z.array(z.string().min(1)).min(1),
+        remark_codes: z.array(z.string().min(1)).default([]),
+      })
+    )
+    .optional()
+    .describe(
+      "Service lines with their own adjustment codes (e.g. parsed_fields.service_lines); each line is analyzed separately"
+    ),
+}).refine(
+  (input) => input.denial_codes.length > 0 || (input.service_lines?.length ?? 0) > 0,
+  { message: "Provide denial_codes or service_lines." }
+);
 
 export const generateAppealDraftSchema = z.object({
   original_claim_id: z.string().min(1),
   denial_reason: z.string().min(1),
   clinical_justification_text: z.string().min(1),
+  denial_codes: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      "CARC denial codes on the claim, e.g. ['CO-22']; they pick the matching appeal template"
+    ),
+  denial_category: denialCategorySchema
+    .optional()
+    .describe(
+      "Appeal category from extract_and_analyze_denial (denial_category.category); when a template covers it, it is chosen over matching by code"
+    ),
+  template_id: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Appeal template to use instead of choosing one from the codes: coordination_of_benefits, eligibility, medical_necessity, prior_authorization, fee_schedule_underpayment, non_covered, missing_information, general, or an organization template id"
+    ),
+  provider: z
+    .object({
+      name: z.string().min(1),
+      credentials: z.string().min(1).optional(),
+      title: z.string().min(1).optional(),
+      npi: z.string().min(1).optional(),
+    })
+    .optional()
+    .describe("Provider who signs the appeal"),
+  practice: z
+    .object({
+      name: z.string().min(1),
+      address: z.string().min(1).optional(),
+      phone: z.string().min(1).optional(),
+      fax: z.string().min(1).optional(),
+      tax_id: z.string().min(1).optional(),
+    })
+    .optional()
+    .describe("Practice or facility sending the appeal; also used as letterhead for docx/pdf output"),
+  payer: z
+    .object({
+      name: z.string().min(1).optional(),
+      appeals_department: z.string().min(1).optional(),
+      appeals_address: z.string().min(1).optional(),
+      appeals_fax: z.string().min(1).optional(),
+    })
+    .optional()
+    .describe("Where the appeal goes (parsed_fields.appeals_address and appeals_fax)"),
+  member: z
+    .object({
+      name: z.string().min(1).optional(),
+      member_id: z.string().min(1).optional(),
+      date_of_birth: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+        .optional(),
+      group_number: z.string().min(1).optional(),
+    })
+    .optional()
+    .describe("Patient/member identifiers (parsed_fields.patient_name and identifiers)"),
+  dates_of_service: z
+    .array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"))
+    .optional(),
+  procedure_codes: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("CPT/HCPCS codes on the claim (parsed_fields.cpt_codes)"),
+  diagnosis_codes: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("ICD-10-CM codes on the claim (parsed_fields.diagnosis_codes)"),
+  enclosures: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Documents enclosed with the appeal, listed after the template's standard enclosures"),
+  output_formats: letterOutputFormatsSchema,
 });
 
-export const extractAndAnalyzeDenialSchema = z.object({
-  file_path: z
+export const generateMedicalNecessityLetterSchema = z.object({
+  patient_name: z.string().min(1).optional(),
+  patient_date_of_birth: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+    .optional(),
+  member_id: z.string().min(1).optional(),
+  original_claim_id: z.string().min(1).optional(),
+  payer_name: z.string().min(1).optional(),
+  diagnosis_codes: z
+    .array(z.string().min(1))
+    .min(1)
+    .describe("ICD-10-CM codes supporting the request, e.g. ['M17.11']; descriptions are filled in for codes in the bundled ICD-10-CM subset"),
+  procedure_codes: z
+    .array(z.string().min(1))
+    .min(1)
+    .describe("CPT/HCPCS codes of the requested or denied service, e.g. ['27447']"),
+  requested_service: z
     .string()
     .min(1)
-    .describe("Absolute or workspace-relative path to the denial PDF file"),
+    .optional()
+    .describe("Plain-language name of the service, e.g. 'right total knee arthroplasty'"),
+  treatment_history: z
+    .string()
+    .min(1)
+    .describe("Onset, course of the condition and treatment to date"),
+  failed_conservative_therapies: z
+    .array(
+      z.object({
+        therapy: z.string().min(1),
+        duration: z.string().min(1).optional(),
+        outcome: z.string().min(1).optional(),
+      })
+    )
+    .default([])
+    .describe("Conservative treatments tried before this service, with how long and why they failed"),
+  functional_status: z
+    .string()
+    .min(1)
+    .describe("Current functional limitations, e.g. walking distance, ADLs, work, validated scores"),
+  clinical_rationale: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Why this service is necessary now and what is expected without it"),
+  physician: z
+    .object({
+      name: z.string().min(1),
+      credentials: z.string().min(1).optional(),
+      specialty: z.string().min(1).optional(),
+      npi: z.string().min(1).optional(),
+      practice_name: z.string().min(1).optional(),
+      phone: z.string().min(1).optional(),
+    })
+    .optional()
+    .describe("Treating physician who signs the letter"),
+  output_formats: letterOutputFormatsSchema,
 });
 
+/** Organization-specific appeal template, loaded from a JSON file in APPEAL_TEMPLATES_DIR. */
+export const appealTemplateSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  subject: z.string().min(1),
+  carc_codes: z.array(z.string().min(1)).default([]),
+  denial_categories: z.array(denialCategorySchema).default([]),
+  argument: z.string().min(1),
+  sections: z
+    .array(z.object({ heading: z.string().min(1), body: z.string() }))
+    .min(1),
+  requested_remedy: z.string().min(1),
+  enclosures: z.array(z.string().min(1)).default([]),
+});
+
+export const extractAndAnalyzeDenialSchema = z
+  .object({
+    ...documentSourceFields,
+    include_denial_case: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Also return denial_case, an appeal-writer DenialCase object that can be passed directly to appeal.plan or appeal.generate"
+      ),
+  })
+  .refine(hasDocumentSource, {
+    message: "Provide either file_path or content_base64.",
+  });
+
+export const extractFrom835Schema = z
+  .object({
+    file_path: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Absolute or workspace-relative path to the X12 835 remittance file"),
+    content: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Raw X12 835 content, used when no file_path is given"),
+  })
+  .refine((input) => Boolean(input.file_path || input.content), {
+    message: "Provide either file_path or content.",
+  });
+
+export const extractFrom277caSchema = z
+  .object({
+    file_path: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Absolute or workspace-relative path to the X12 277CA acknowledgment file"),
+    content: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Raw X12 277CA content, used when no file_path is given"),
+  })
+  .refine((input) => Boolean(input.file_path || input.content), {
+    message: "Provide either file_path or content.",
+  });
+
 export const identifierSchema = z.object({
   label: z.string(),
   value: z.string(),
 });
 
+export const appealSubmissionMethodSchema = z.enum([
+  "mail",
+  "fax",
+  "portal",
+  "phone",
+  "other",
+]);
+
+export const denialAmountsSchema = z.object({
+  billed: z.number().nullable().default(null),
+  allowed: z.number().nullable().default(null),
+  paid: z.number().nullable().default(null),
+  adjustments: z.number().nullable().default(null),
+  patient_responsibility: z.number().nullable().default(null),
+});
+
+export const serviceLineSchema = z.object({
+  line_number: z.number().int().positive(),
+  procedure_code: z.string(),
+  modifiers: z.array(z.string()).default([]),
+  units: z.number().nullable().default(null),
+  service_date: z.string().nullable().default(null),
+  amounts: denialAmountsSchema.prefault({}),
+  denial_codes: z.array(z.string()).default([]),
+  remark_codes: z.array(z.string()).default([]),
+});
+
 export const parsedDenialFieldsSchema = z.object({
   claim_id: z.string().default("UNKNOWN"),
   patient_name: z.string().default("UNKNOWN"),
   patient_address: z.string().default("UNKNOWN"),
   identifiers: z.array(identifierSchema).default([]),
   denial_codes: z.array(z.string()).default([]),
+  remark_codes: z.array(z.string()).default([]),
   cpt_codes: z.array(z.string()).default([]),
+  diagnosis_codes: z.array(z.string()).default([]),
   policy_references: z.array(z.string()).default([]),
   denial_reason_text: z.string().default("Reason not clearly found in document."),
+  letter_date: z.string().default("UNKNOWN"),
+  appeal_window_days: z.number().int().positive().nullable().default(null),
+  appeal_submission_methods: z.array(appealSubmissionMethodSchema).default([]),
+  appeals_address: z.string().default("UNKNOWN"),
+  appeals_fax: z.string().default("UNKNOWN"),
+  payer_name: z.string().default("UNKNOWN"),
+  provider_name: z.string().default("UNKNOWN"),
+  amounts: denialAmountsSchema.prefault({}),
+  service_lines: z.array(serviceLineSchema).default([]),
 });
 
+export type DenialAmounts = z.infer<typeof denialAmountsSchema>;
+export type ServiceLine = z.infer<typeof serviceLineSchema>;
+export type AppealSubmissionMethod = z.infer<typeof appealSubmissionMethodSchema>;
+
 export type ParsedDenialFields = z.infer<typeof parsedDenialFieldsSchema>;
+
+// MCP prompt arguments are always strings.
+export const triageDenialPromptSchema = z.object({
+  file_path: z
+    .string()
+    .optional()
+    .describe("Denial letter, EOB, fax or 835 file to triage"),
+  claim_id: z.string().optional().describe("Claim ID, when the document covers several claims"),
+});
+
+export const draftAppealPromptSchema = z.object({
+  file_path: z.string().min(1).describe("Denial letter or EOB to appeal"),
+  claim_id: z.string().optional().describe("Claim ID, when the document covers several claims"),
+  provider_name: z.string().optional().describe("Provider who will sign the appeal"),
+  practice_name: z.string().optional().describe("Practice sending the appeal"),
+});
+
+export const explainEobPromptSchema = z.object({
+  file_path: z.string().min(1).describe("EOB or 835 remittance to explain"),
+  claim_id: z.string().optional().describe("Claim ID, when the document covers several claims"),
+});
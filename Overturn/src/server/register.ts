@@ -1,73 +1,180 @@
+import type { PhiRedactionSummary } from "@overturn/phi-redaction";
 import type { MCPServer } from "mcp-use/server";
-import { object, text } from "mcp-use/server";
+import { mix, object, text } from "mcp-use/server";
 
-import { DenialMapping, denialKnowledgeBase } from "../constants/denial.js";
+import { denialKnowledgeBase } from "../constants/denial.js";
+import { WORKFLOW_PROMPTS } from "../constants/prompts.js";
+import {
+  ADJUSTMENT_CODE_LIST_NOTE,
+  AdjustmentCodeDictionary,
+} from "../services/adjustment-code-dictionary.service.js";
+import { ClaimAcknowledgmentParsingService } from "../services/claim-acknowledgment-parsing.service.js";
 import { DenialAnalysisService } from "../services/denial-analysis.service.js";
-import { AppealGenerationService } from "../services/appeal-generation.service.js";
+import { DenialCaseExportService } from "../services/denial-case-export.service.js";
+import { DocumentExtractionService } from "../services/document-extraction.service.js";
+import {
+  DenialFieldMergeService,
+  type FieldDisagreement,
+  type FieldSource,
+} from "../services/denial-field-merge.service.js";
+import { Era835ParsingService } from "../services/era-835-parsing.service.js";
+import {
+  AppealDocumentRenderingService,
+  type AppealDocumentFormat,
+  type Letterhead,
+} from "../services/appeal-document-rendering.service.js";
+import {
+  AppealGenerationService,
+  type AppealDraft,
+} from "../services/appeal-generation.service.js";
+import {
+  ICD10_CODE_LIST_NOTE,
+  Icd10CodeDictionary,
+} from "../services/icd10-code-dictionary.service.js";
 import { LlmDenialParsingService } from "../services/llm-denial-parsing.service.js";
-import { PdfExtractionService } from "../services/pdf-extraction.service.js";
+import { MedicalNecessityLetterService } from "../services/medical-necessity-letter.service.js";
 import { RegexDenialParsingService } from "../services/regex-denial-parsing.service.js";
 import {
   analyzeDenialCodesSchema,
+  draftAppealPromptSchema,
+  explainEobPromptSchema,
   extractAndAnalyzeDenialSchema,
   extractClaimDataSchema,
+  extractFrom277caSchema,
+  extractFrom835Schema,
   generateAppealDraftSchema,
+  generateMedicalNecessityLetterSchema,
+  triageDenialPromptSchema,
 } from "../schemas/tool-schemas.js";
 import {
-  classifyPdfError,
+  classifyDocumentError,
+  classifyX12Error,
   getErrorMessage,
   mcpErrorResponse,
 } from "../utils/errors.js";
-import { normalizeCode } from "../utils/normalization.js";
+import { isRemarkCode, normalizeCode } from "../utils/normalization.js";
+import { knownPhiForParsedFields } from "../utils/phi.js";
+import type { DocumentFormat } from "../utils/document-format.js";
 
-const pdfExtractionService = new PdfExtractionService();
-const denialAnalysisService = new DenialAnalysisService();
+const documentExtractionService = new DocumentExtractionService();
+const adjustmentCodeDictionary = new AdjustmentCodeDictionary();
+const icd10CodeDictionary = new Icd10CodeDictionary();
+const denialAnalysisService = new DenialAnalysisService(adjustmentCodeDictionary);
+const era835ParsingService = new Era835ParsingService(adjustmentCodeDictionary);
+const claimAcknowledgmentParsingService = new ClaimAcknowledgmentParsingService();
 const regexDenialParsingService = new RegexDenialParsingService();
 const llmDenialParsingService = new LlmDenialParsingService();
 const appealGenerationService = new AppealGenerationService();
+const appealDocumentRenderingService = new AppealDocumentRenderingService();
+const medicalNecessityLetterService = new MedicalNecessityLetterService(icd10CodeDictionary);
+const denialCaseExportService = new DenialCaseExportService();
+const denialFieldMergeService = new DenialFieldMergeService();
 
 /**
  * LLM orchestration guidance:
- * 1) Call `extract_claim_data` first to ingest denial notice text and metadata.
+ * 1) Call `extract_claim_data` first to ingest denial notice text and metadata
+ *    (or `extract_from_835` for electronic remittances, which already yields parsed fields).
  * 2) Parse/identify denial codes and call `analyze_denial_codes` for human-readable interpretation.
  * 3) Use payer rationale + chart context to call `generate_appeal_draft` and produce a clinician-ready markdown appeal.
+ *    For medical-necessity and non-covered denials, also call `generate_medical_necessity_letter` for the physician's LMN.
+ * Clients see this flow through the triage_denial, draft_appeal and explain_eob_to_patient prompts.
  */
 export function registerServerHandlers(server: MCPServer): void {
   server.tool(
     {
       name: "extract_claim_data",
       description:
-        "Extracts raw text and metadata from an insurance denial PDF.",
+        "Extracts raw text and metadata from an insurance denial document given by file_path or inline content_base64. PDF, DOCX, multi-page TIFF faxes, JPEG/PNG photos and plain text are detected from their magic bytes (format, mime_type). Returns per-page layout (pages[].blocks with lines, column spans and bounding boxes, and each page's offsets into raw_text) for PDFs and images. Images and scanned PDF pages are recognized with local OCR; metadata.ocr lists those pages with per-page confidence.",
       schema: extractClaimDataSchema,
     },
     async (input) => {
+      let format: DocumentFormat | null = null;
       try {
         const parsedInput = extractClaimDataSchema.parse(input);
-        const extracted = await pdfExtractionService.extractClaimData(
-          parsedInput.file_path
-        );
+        const document = await documentExtractionService.load(parsedInput);
+        format = document.format;
+        const extracted = await documentExtractionService.extractClaimData(document);
         return object(extracted);
       } catch (err) {
-        const classified = classifyPdfError(err);
+        const classified = classifyDocumentError(err, format);
         process.stderr.write(`[extract_claim_data] ${getErrorMessage(err)}\n`);
         return mcpErrorResponse(classified.code, classified.message);
       }
     }
   );
 
+  server.tool(
+    {
+      name: "extract_from_835",
+      description:
+        "Parses an X12 835 electronic remittance (ERA) into per-claim, per-service-line records with adjustment group/reason codes and amounts. Each claim includes parsed_fields in the same shape extract_and_analyze_denial returns, plus amount_reconciliation and identifier_validation checks.",
+      schema: extractFrom835Schema,
+    },
+    async (input) => {
+      try {
+        const parsedInput = extractFrom835Schema.parse(input);
+        const remittance = parsedInput.file_path
+          ? await era835ParsingService.extractFromFile(parsedInput.file_path)
+          : era835ParsingService.parse(parsedInput.content ?? "");
+        return object({
+          ...remittance,
+          claims: remittance.claims.map((entry) => ({
+            ...entry,
+            amount_reconciliation: denialAnalysisService.reconcileAmounts(
+              entry.parsed_fields.amounts
+            ),
+            identifier_validation: denialAnalysisService.validateIdentifiers(
+              entry.parsed_fields.identifiers,
+              entry.parsed_fields.denial_codes
+            ),
+          })),
+        });
+      } catch (err) {
+        const classified = classifyX12Error(err);
+        process.stderr.write(`[extract_from_835] ${getErrorMessage(err)}\n`);
+        return mcpErrorResponse(classified.code, classified.message);
+      }
+    }
+  );
+
+  server.tool(
+    {
+      name: "extract_from_277ca",
+      description:
+        "Parses an X12 277CA claim acknowledgment, explains each STC category/status code in plain language, and flags front-end rejections that need a corrected resubmission instead of an appeal. Status codes come from a bundled subset of X12 code list 508; unlisted codes have status_code_found false (see status_code_list).",
+      schema: extractFrom277caSchema,
+    },
+    async (input) => {
+      try {
+        const parsedInput = extractFrom277caSchema.parse(input);
+        const acknowledgment = parsedInput.file_path
+          ? await claimAcknowledgmentParsingService.extractFromFile(
+              parsedInput.file_path
+            )
+          : claimAcknowledgmentParsingService.parse(parsedInput.content ?? "");
+        return object(acknowledgment);
+      } catch (err) {
+        const classified = classifyX12Error(err);
+        process.stderr.write(`[extract_from_277ca] ${getErrorMessage(err)}\n`);
+        return mcpErrorResponse(classified.code, classified.message);
+      }
+    }
+  );
+
   server.tool(
     {
       name: "extract_and_analyze_denial",
       description:
-        "Demo one-shot workflow: extract PDF text, parse claim/denial fields, and map denial codes to human-readable explanations.",
+        "Demo one-shot workflow: extract text from a denial PDF, DOCX, TIFF fax, photo or plain text given by file_path or content_base64 (with local OCR for images and scanned pages), parse claim/denial fields, map denial codes to human-readable explanations, merge the regex and LLM parses field by field (field_sources; conflicts on claim ID, patient name, codes and other fields are listed in field_disagreements with both values; PHI is replaced with reversible placeholders before text reaches an external LLM per PHI_POLICY, see phi_redaction), classify the denial into an appeal category (denial_category), check ICD-10-CM diagnosis codes against a bundled subset for descriptions and billable/header/malformed status (diagnoses; codes outside the subset are not_in_bundled_list, see diagnosis_code_list), check NPI/TIN/payer ID identifiers (identifier_validation), compute the appeal due date (appeal_deadline), reconcile billed/adjusted/paid amounts (amount_reconciliation), and analyze each service line's codes (service_line_analysis). Long packets are parsed page group by page group; parsed_fields.chunking.field_pages shows which pages supplied each field. parsed_fields.field_evidence gives each field's confidence and character spans into raw_text. Set include_denial_case to also get an appeal-writer DenialCase for appeal.generate.",
       schema: extractAndAnalyzeDenialSchema,
     },
     async (input) => {
+      let format: DocumentFormat | null = null;
       try {
         const parsedInput = extractAndAnalyzeDenialSchema.parse(input);
-        const extracted = await pdfExtractionService.extractClaimData(
-          parsedInput.file_path
-        );
+        const document = await documentExtractionService.load(parsedInput);
+        format = document.format;
+        const extracted = await documentExtractionService.extractClaimData(document);
 
         const regexParsedFields = regexDenialParsingService.parseFromRawText(
           extracted.raw_text
@@ -75,44 +182,114 @@ export function registerServerHandlers(server: MCPServer): void {
 
         let parsedFields = regexParsedFields;
         let parsingSource: "regex" | "llm" | "hybrid" = "regex";
+        let fieldSources: Record<string, FieldSource> | null = null;
+        let fieldDisagreements: FieldDisagreement[] = [];
+        let phiRedaction: PhiRedactionSummary | null = null;
         const parsingWarnings: string[] = [];
+        const { ocr } = extracted.metadata;
+        if (ocr.error) {
+          parsingWarnings.push(
+            `OCR failed for scanned pages ${ocr.pages_without_text.join(", ")}. ${ocr.error}`
+          );
+        } else if (ocr.applied) {
+          parsingWarnings.push(
+            `Text for pages ${ocr.pages.map((page) => page.page_number).join(", ")} came from OCR (mean confidence ${ocr.mean_confidence ?? "n/a"}). Check codes and identifiers against the original.`
+          );
+        }
 
         try {
           const llmParsedFields = await llmDenialParsingService.parseFromRawText(
-            extracted.raw_text
+            extracted.raw_text,
+            undefined,
+            knownPhiForParsedFields(regexParsedFields)
+          );
+          const merged = denialFieldMergeService.merge(
+            regexParsedFields,
+            llmParsedFields
+          );
+          parsedFields = merged.fields;
+          fieldSources = merged.field_sources;
+          fieldDisagreements = merged.field_disagreements;
+          phiRedaction = llmParsedFields.phi_redaction;
+          parsingWarnings.push(
+            ...llmParsedFields.provider_fallbacks.map(
+              (failure) => `LLM provider failed, tried the next one. ${failure}`
+            )
+          );
+          const contributors = new Set(
+            Object.values(merged.field_sources).filter((source) => source !== "none")
           );
-          parsedFields = {
-            ...llmParsedFields,
-            denial_codes:
-              llmParsedFields.denial_codes.length > 0
-                ? llmParsedFields.denial_codes
-                : regexParsedFields.denial_codes,
-          };
           parsingSource =
-            regexParsedFields.denial_codes.length > 0 &&
-            llmParsedFields.denial_codes.length > 0
-              ? "hybrid"
-              : "llm";
+            contributors.size === 1 && contributors.has("llm") ? "llm" : "hybrid";
         } catch (error_) {
           parsingWarnings.push(
             `LLM parsing unavailable. Fell back to regex parser. ${getErrorMessage(error_)}`
           );
         }
 
-        const codeAnalysis = denialAnalysisService.analyzeCodes(
-          parsedFields.denial_codes
+        const codeAnalysis = denialAnalysisService.attachRemarkCodes(
+          denialAnalysisService.analyzeCodes(parsedFields.denial_codes),
+          parsedFields.remark_codes,
+          { rawText: extracted.raw_text }
         );
+        const denialCategory = denialAnalysisService.classifyDenial({
+          denialCodes: parsedFields.denial_codes,
+          remarkCodes: parsedFields.remark_codes,
+          denialReasonText: parsedFields.denial_reason_text,
+          policyReferences: parsedFields.policy_references,
+        });
 
         return object({
           file_path: extracted.file_path,
+          filename: extracted.filename,
+          format: extracted.format,
           metadata: extracted.metadata,
           parsed_fields: parsedFields,
           parsing_source: parsingSource,
           parsing_warnings: parsingWarnings,
-          denial_code_analysis: codeAnalysis,
+          field_sources: fieldSources,
+          field_disagreements: fieldDisagreements,
+          phi_redaction: phiRedaction,
+          denial_code_analysis: codeAnalysis.results,
+          unpaired_remark_codes: codeAnalysis.unpaired_remark_codes,
+          denial_category: denialCategory,
+          diagnoses: parsedFields.diagnosis_codes.map((code) =>
+            icd10CodeDictionary.validate(code)
+          ),
+          diagnosis_code_list: {
+            version: icd10CodeDictionary.version,
+            bundled_codes: icd10CodeDictionary.size,
+            complete: false,
+            note: ICD10_CODE_LIST_NOTE,
+          },
+          identifier_validation: denialAnalysisService.validateIdentifiers(
+            parsedFields.identifiers,
+            parsedFields.denial_codes
+          ),
+          appeal_deadline: denialAnalysisService.computeAppealDeadline(
+            parsedFields.letter_date,
+            parsedFields.appeal_window_days
+          ),
+          amount_reconciliation: denialAnalysisService.reconcileAmounts(
+            parsedFields.amounts
+          ),
+          service_line_analysis: denialAnalysisService.analyzeServiceLines(
+            parsedFields.service_lines
+          ),
+          ...(parsedInput.include_denial_case
+            ? {
+                denial_case: denialCaseExportService.toDenialCase({
+                  rawText: extracted.raw_text,
+                  filename: extracted.filename,
+                  mimeType: extracted.mime_type,
+                  parsedFields,
+                  classification: denialCategory,
+                }),
+              }
+            : {}),
         });
       } catch (err) {
-        const classified = classifyPdfError(err);
+        const classified = classifyDocumentError(err, format);
         process.stderr.write(
           `[extract_and_analyze_denial] ${getErrorMessage(err)}\n`
         );
@@ -125,18 +302,48 @@ export function registerServerHandlers(server: MCPServer): void {
     {
       name: "analyze_denial_codes",
       description:
-        "Maps denial codes to human-readable CARC explanations and recommended actions.",
+        "Maps CARC/RARC denial codes to human-readable explanations, group-code liability (CO/PR/OA/PI), and recommended actions from a bundled subset of the code lists (see code_list). as_of_date picks between revised texts where approximate dates are bundled; most codes are undated and report active_on_date null with a date_note. Pass service_lines to get a separate analysis per line.",
       schema: analyzeDenialCodesSchema,
     },
     async (input) => {
       try {
         const parsedInput = analyzeDenialCodesSchema.parse(input);
+        const denialCodes = parsedInput.denial_codes.filter(
+          (code) => !isRemarkCode(code)
+        );
+        const remarkCodes = [
+          ...(parsedInput.remark_codes ?? []),
+          ...parsedInput.denial_codes.filter((code) => isRemarkCode(code)),
+        ];
         const analysis = denialAnalysisService.analyzeCodes(
-          parsedInput.denial_codes
+          denialCodes,
+          parsedInput.as_of_date
+        );
+        const withRemarks = denialAnalysisService.attachRemarkCodes(
+          analysis,
+          remarkCodes,
+          { asOfDate: parsedInput.as_of_date }
         );
         return object({
-          results: analysis,
-          dictionary_size: Object.keys(DenialMapping).length,
+          results: withRemarks.results,
+          unpaired_remark_codes: withRemarks.unpaired_remark_codes,
+          group_summary: denialAnalysisService.summarizeByGroup(analysis),
+          ...(parsedInput.service_lines
+            ? {
+                service_line_results: denialAnalysisService.analyzeServiceLines(
+                  parsedInput.service_lines,
+                  parsedInput.as_of_date
+                ),
+              }
+            : {}),
+          dictionary_size: adjustmentCodeDictionary.size,
+          dictionary_version: adjustmentCodeDictionary.version,
+          code_list: {
+            bundled_carcs: adjustmentCodeDictionary.carcCount,
+            bundled_rarcs: adjustmentCodeDictionary.rarcCount,
+            complete: false,
+            note: ADJUSTMENT_CODE_LIST_NOTE,
+          },
         });
       } catch (err) {
         const message =
@@ -150,24 +357,100 @@ export function registerServerHandlers(server: MCPServer): void {
     {
       name: "generate_appeal_draft",
       description:
-        "Generates a structured markdown appeal letter from claim denial context.",
+        "Generates a structured markdown appeal letter from claim denial context. The letter's sections, argument language and requested remedy come from a template chosen by CARC (denial_codes) or denial_category: coordination_of_benefits (CARC 22/23), eligibility (27 and related), medical_necessity (50 and related), prior_authorization (15/197 and related), fee_schedule_underpayment (45/59/131), non_covered (96/204/49), missing_information (16 and related), or general. An explicit denial_category wins over the codes, and adjustment-only CARCs such as 45 are matched after real denial codes. Pass template_id to pick one; organization templates loaded from APPEAL_TEMPLATES_DIR override or extend these. Provider, practice, payer appeals address, member identifiers, dates of service, codes and enclosures fill the letter's placeholders; the result has markdown, template_id and missing_placeholders (values still shown as [Bracketed Label] markers for the user to supply). Set output_formats to include docx and/or pdf for a print-ready letter with letterhead (the practice, or APPEAL_LETTERHEAD_NAME), signature block and page numbers; the files are returned as embedded base64 resources, or written to APPEAL_OUTPUT_DIR and listed in documents[].file_path.",
       schema: generateAppealDraftSchema,
     },
     async (input) => {
+      let draft: AppealDraft;
+      let documentFormats: AppealDocumentFormat[];
+      let letterhead: Letterhead | null;
+      let claimId: string;
       try {
         const parsedInput = generateAppealDraftSchema.parse(input);
-        const markdownDraft = appealGenerationService.generateAppealDraft(
-          parsedInput
+        draft = appealGenerationService.generateAppealDraft(parsedInput);
+        claimId = parsedInput.original_claim_id;
+        documentFormats = parsedInput.output_formats.filter(
+          (format): format is AppealDocumentFormat => format !== "markdown"
         );
-        return text(markdownDraft);
+        letterhead = parsedInput.practice ? practiceLetterhead(parsedInput.practice) : null;
       } catch (err) {
         const message =
           err instanceof Error ? err.message : "Invalid appeal payload.";
         return mcpErrorResponse("MCP_INVALID_INPUT", message);
       }
+      const { markdown, ...details } = draft;
+      return renderedLetterResponse("generate_appeal_draft", markdown, documentFormats, {
+        baseName: `appeal-${claimId}-${new Date().toISOString().slice(0, 10)}`,
+        title: "Appeal Letter",
+        letterhead,
+        details,
+      });
+    }
+  );
+
+  server.tool(
+    {
+      name: "generate_medical_necessity_letter",
+      description:
+        "Drafts a Letter of Medical Necessity for the treating physician to sign, to enclose with medical-necessity and non-covered (CARC 50, 96) appeals. Takes diagnosis codes (ICD-10-CM descriptions are filled in for codes in the bundled subset), procedure codes, treatment history, failed conservative therapies and functional status, and returns a standard structure: diagnoses, treatment history, conservative therapies tried, functional status, medical necessity statement, attestation and physician signature block. output_formats works as in generate_appeal_draft.",
+      schema: generateMedicalNecessityLetterSchema,
+    },
+    async (input) => {
+      let markdownLetter: string;
+      let documentFormats: AppealDocumentFormat[];
+      let baseName: string;
+      try {
+        const parsedInput = generateMedicalNecessityLetterSchema.parse(input);
+        markdownLetter = medicalNecessityLetterService.generateLetter(parsedInput);
+        documentFormats = parsedInput.output_formats.filter(
+          (format): format is AppealDocumentFormat => format !== "markdown"
+        );
+        baseName = `lmn-${parsedInput.original_claim_id ?? parsedInput.procedure_codes.join("-")}-${new Date().toISOString().slice(0, 10)}`;
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Invalid letter of medical necessity payload.";
+        return mcpErrorResponse("MCP_INVALID_INPUT", message);
+      }
+      return renderedLetterResponse(
+        "generate_medical_necessity_letter",
+        markdownLetter,
+        documentFormats,
+        { baseName, title: "Letter of Medical Necessity" }
+      );
     }
   );
 
+  server.prompt(
+    {
+      name: "triage_denial",
+      description:
+        "Triage a denial: extract the document, explain its codes and liability, and recommend an appeal, corrected claim or write-off.",
+      schema: triageDenialPromptSchema,
+    },
+    async (args) => text(WORKFLOW_PROMPTS.triageDenial(triageDenialPromptSchema.parse(args)))
+  );
+
+  server.prompt(
+    {
+      name: "draft_appeal",
+      description:
+        "Draft an appeal for a denial document: extract_claim_data, analyze_denial_codes, then generate_appeal_draft (and a letter of medical necessity when needed).",
+      schema: draftAppealPromptSchema,
+    },
+    async (args) => text(WORKFLOW_PROMPTS.draftAppeal(draftAppealPromptSchema.parse(args)))
+  );
+
+  server.prompt(
+    {
+      name: "explain_eob_to_patient",
+      description:
+        "Explain an EOB or remittance to the patient in plain language: what was paid, what they may owe, and why anything was denied.",
+      schema: explainEobPromptSchema,
+    },
+    async (args) =>
+      text(WORKFLOW_PROMPTS.explainEobToPatient(explainEobPromptSchema.parse(args)))
+  );
+
   server.resourceTemplate(
     {
       name: "denial-knowledge-base-code",
@@ -177,13 +460,102 @@ export function registerServerHandlers(server: MCPServer): void {
     },
     async (_uri: URL, params: Record<string, any>) => {
       const code = normalizeCode(String(params.code ?? ""));
-      const note = denialKnowledgeBase[code];
-      if (!note) {
+      const entry = adjustmentCodeDictionary.lookup(code);
+      if (!entry) {
         return text(
           `No entry found for code '${code}'. Consider payer policy docs and CARC/RARC references for deeper review.`
         );
       }
-      return text(`Code ${code}: ${note}`);
+
+      const note = entry.code_type === "CARC" ? denialKnowledgeBase[code] : undefined;
+      const history = adjustmentCodeDictionary
+        .history(code)
+        .map(
+          (revision) =>
+            `- ${revision.effective_date ?? "start date not bundled"} to ${revision.deactivation_date ?? "present"}: ${revision.title}`
+        );
+      return text(
+        [
+          `${entry.code_type} ${code}: ${entry.title}`,
+          entry.explanation,
+          `Recommended action: ${entry.recommended_action}`,
+          ...(entry.active_on_date ? [] : ["Status: deactivated"]),
+          ...(note ? ["", note] : []),
+          "",
+          `Code text history (dictionary ${adjustmentCodeDictionary.version}, approximate dates):`,
+          ...history,
+          "",
+          ADJUSTMENT_CODE_LIST_NOTE,
+        ].join("\n")
+      );
     }
   );
 }
+
+/**
+ * Returns the markdown alone when there is nothing else to report, otherwise an
+ * object with the details and any DOCX/PDF renderings, which are embedded as
+ * resources or written to APPEAL_OUTPUT_DIR.
+ */
+async function renderedLetterResponse(
+  toolName: string,
+  markdown: string,
+  formats: AppealDocumentFormat[],
+  options: {
+    baseName: string;
+    title: string;
+    letterhead?: Letterhead | null;
+    details?: Record<string, unknown>;
+  }
+) {
+  const { title, details } = options;
+  if (formats.length === 0) {
+    return details ? object({ markdown, ...details }) : text(markdown);
+  }
+  try {
+    const documents = await appealDocumentRenderingService.render(markdown, formats, options);
+    return mix(
+      object({
+        markdown,
+        ...details,
+        documents: documents.map(({ content_base64: _content, ...document }) => document),
+      }),
+      // Documents written to APPEAL_OUTPUT_DIR are referenced by file_path instead of embedded.
+      ...documents
+        .filter((document) => document.file_path === null)
+        .map((document) => ({
+          content: [
+            {
+              type: "resource" as const,
+              resource: {
+                uri: `appeal-draft://documents/${document.filename}`,
+                mimeType: document.mime_type,
+                blob: document.content_base64,
+              },
+            },
+          ],
+        }))
+    );
+  } catch (err) {
+    process.stderr.write(`[${toolName}] ${getErrorMessage(err)}\n`);
+    return mcpErrorResponse(
+      "MCP_INTERNAL_ERROR",
+      `Could not render the ${title.toLowerCase()}: ${getErrorMessage(err)}`
+    );
+  }
+}
+
+const practiceLetterhead = (practice: {
+  name: string;
+  address?: string;
+  phone?: string;
+  fax?: string;
+}): Letterhead => ({
+  name: practice.name,
+  lines: [
+    practice.address?.replace(/\s*\n\s*/g, ", "),
+    [practice.phone && `Phone ${practice.phone}`, practice.fax && `Fax ${practice.fax}`]
+      .filter(Boolean)
+      .join(" | "),
+  ].filter((line): line is string => Boolean(line)),
+});
@@ -0,0 +1,112 @@
+import adjustmentCodeData from "../data/adjustment-codes.json" with { type: "json" };
+import { isRemarkCode, normalizeCode } from "../utils/normalization.js";
+
+export type AdjustmentCodeType = "CARC" | "RARC";
+
+export interface AdjustmentCodeEntry {
+  code: string;
+  title: string;
+  explanation: string;
+  recommended_action: string;
+  /** Null when the bundled list has no start date for this text (all RARCs, most CARCs). */
+  effective_date: string | null;
+  deactivation_date: string | null;
+}
+
+export interface ResolvedAdjustmentCode extends AdjustmentCodeEntry {
+  code_type: AdjustmentCodeType;
+  /** Null when a date was given but the text's start date is not bundled. */
+  active_on_date: boolean | null;
+}
+
+export const UNDATED_CODE_NOTE =
+  "The bundled text for this code has no effective date, so whether it applied on as_of_date is unknown (active_on_date null).";
+
+export const ADJUSTMENT_CODE_LIST_NOTE =
+  "Only a subset of the X12 CARC and RARC lists is bundled, and its effective dates are approximate where present. Codes outside it are reported with found false; check the published lists at x12.org before relying on a code's text or dates.";
+
+/**
+ * Bundled subset of the CARC/RARC code sets. A code may have several entries
+ * when its text was revised; each entry covers [effective_date,
+ * deactivation_date), with a null effective_date meaning the start is unknown.
+ */
+export class AdjustmentCodeDictionary {
+  readonly version: string = adjustmentCodeData.version;
+  readonly carcCount = new Set(adjustmentCodeData.carc.map((row) => row.code)).size;
+  readonly rarcCount = new Set(adjustmentCodeData.rarc.map((row) => row.code)).size;
+  private readonly entries = new Map<string, AdjustmentCodeEntry[]>();
+
+  constructor() {
+    this.index("CARC", adjustmentCodeData.carc);
+    this.index("RARC", adjustmentCodeData.rarc);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  lookup(rawCode: string, asOfDate?: string): ResolvedAdjustmentCode | null {
+    const code = normalizeCode(rawCode);
+    const codeType = this.codeTypeOf(code);
+    const candidates = this.entries.get(`${codeType}:${code}`);
+    if (!candidates) {
+      return null;
+    }
+
+    if (!asOfDate) {
+      const latest = candidates[candidates.length - 1];
+      return {
+        ...latest,
+        code_type: codeType,
+        active_on_date: latest.deactivation_date === null,
+      };
+    }
+
+    const inEffect = candidates.find((entry) =>
+      this.isInEffect(entry, asOfDate)
+    );
+    if (inEffect) {
+      return {
+        ...inEffect,
+        code_type: codeType,
+        active_on_date: inEffect.effective_date === null ? null : true,
+      };
+    }
+
+    // Outside every window: report the closest text that preceded the date,
+    // or the earliest text when the code did not exist yet.
+    const preceding = candidates.filter(
+      (entry) => entry.effective_date !== null && entry.effective_date <= asOfDate
+    );
+    const closest = preceding[preceding.length - 1] ?? candidates[0];
+    return { ...closest, code_type: codeType, active_on_date: false };
+  }
+
+  history(rawCode: string): AdjustmentCodeEntry[] {
+    const code = normalizeCode(rawCode);
+    return [...(this.entries.get(`${this.codeTypeOf(code)}:${code}`) ?? [])];
+  }
+
+  private codeTypeOf(code: string): AdjustmentCodeType {
+    return isRemarkCode(code) ? "RARC" : "CARC";
+  }
+
+  private isInEffect(entry: AdjustmentCodeEntry, asOfDate: string): boolean {
+    return (
+      (entry.effective_date === null || entry.effective_date <= asOfDate) &&
+      (entry.deactivation_date === null || asOfDate < entry.deactivation_date)
+    );
+  }
+
+  private index(codeType: AdjustmentCodeType, rows: AdjustmentCodeEntry[]) {
+    for (const row of rows) {
+      const key = `${codeType}:${row.code}`;
+      const existing = this.entries.get(key) ?? [];
+      existing.push(row);
+      existing.sort((a, b) =>
+        (a.effective_date ?? "").localeCompare(b.effective_date ?? "")
+      );
+      this.entries.set(key, existing);
+    }
+  }
+}
@@ -0,0 +1,445 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  Header,
+  Packer,
+  PageNumber,
+  Paragraph,
+  TextRun,
+} from "docx";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+
+export type AppealDocumentFormat = "docx" | "pdf";
+
+export interface Letterhead {
+  name: string;
+  lines: string[];
+}
+
+export interface RenderedAppealDocument {
+  format: AppealDocumentFormat;
+  mime_type: string;
+  filename: string;
+  /** Set when the document was written to APPEAL_OUTPUT_DIR. */
+  file_path: string | null;
+  size_bytes: number;
+  content_base64: string;
+}
+
+export const APPEAL_DOCUMENT_MIME_TYPES: Record<AppealDocumentFormat, string> = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pdf: "application/pdf",
+};
+
+type InlineRun = { text: string; bold: boolean };
+
+type LetterLine =
+  | { kind: "heading"; level: 1 | 2 | 3; runs: InlineRun[] }
+  | { kind: "paragraph" | "bullet" | "closing" | "signature"; runs: InlineRun[] }
+  | { kind: "blank" };
+
+// US Letter in PDF points, with one-inch margins.
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const BODY_SIZE = 11;
+const HEADING_SIZES = { 1: 15, 2: 12.5, 3: 11.5 } as const;
+const LETTERHEAD_HEIGHT = 48;
+
+/**
+ * Renders a markdown appeal draft (the subset generate_appeal_draft emits)
+ * as a print-ready DOCX or PDF with letterhead, signature block and page numbers.
+ */
+export class AppealDocumentRenderingService {
+  private readonly letterhead: Letterhead | null;
+  private readonly outputDir: string | null;
+
+  constructor(
+    letterhead = letterheadFromEnv(),
+    outputDir: string | null = process.env.APPEAL_OUTPUT_DIR || null
+  ) {
+    this.letterhead = letterhead;
+    this.outputDir = outputDir ? path.resolve(outputDir) : null;
+  }
+
+  /** A per-letter letterhead (e.g. from the practice in the request) replaces the configured one. */
+  async render(
+    markdown: string,
+    formats: AppealDocumentFormat[],
+    options: { baseName: string; title: string; letterhead?: Letterhead | null }
+  ): Promise<RenderedAppealDocument[]> {
+    const { baseName, title } = options;
+    const letterhead = options.letterhead ?? this.letterhead;
+    const lines = parseLetter(markdown);
+    const documents: RenderedAppealDocument[] = [];
+    for (const format of Array.from(new Set(formats))) {
+      const buffer =
+        format === "docx"
+          ? await this.renderDocx(lines, title, letterhead)
+          : await this.renderPdf(lines, title, letterhead);
+      const filename = `${safeFileName(baseName)}.${format}`;
+      let filePath: string | null = null;
+      if (this.outputDir) {
+        await fs.mkdir(this.outputDir, { recursive: true });
+        filePath = path.join(this.outputDir, filename);
+        await fs.writeFile(filePath, buffer);
+      }
+      documents.push({
+        format,
+        mime_type: APPEAL_DOCUMENT_MIME_TYPES[format],
+        filename,
+        file_path: filePath,
+        size_bytes: buffer.length,
+        content_base64: buffer.toString("base64"),
+      });
+    }
+    return documents;
+  }
+
+  private async renderDocx(
+    lines: LetterLine[],
+    title: string,
+    letterhead: Letterhead | null
+  ): Promise<Buffer> {
+    const font = "Times New Roman";
+    const toRuns = (runs: InlineRun[], size = BODY_SIZE) =>
+      runs.map((run) => new TextRun({ text: run.text, bold: run.bold, font, size: size * 2 }));
+
+    const children: Paragraph[] = [];
+    let spaceBefore = 0;
+    let signatureStarted = false;
+    for (const line of lines) {
+      if (line.kind === "blank") {
+        spaceBefore = 160;
+        continue;
+      }
+      const spacing = { before: spaceBefore, after: 0 };
+      spaceBefore = 0;
+      if (line.kind === "heading") {
+        children.push(
+          new Paragraph({
+            children: toRuns(
+              line.runs.map((run) => ({ ...run, bold: true })),
+              HEADING_SIZES[line.level]
+            ),
+            spacing: { before: Math.max(spacing.before, 120), after: 60 },
+            keepNext: true,
+          })
+        );
+      } else if (line.kind === "bullet") {
+        children.push(
+          new Paragraph({ children: toRuns(line.runs), bullet: { level: 0 }, spacing })
+        );
+      } else if (line.kind === "signature" && !signatureStarted) {
+        signatureStarted = true;
+        // Room for a wet signature above the signer's name.
+        children.push(
+          new Paragraph({
+            children: [new TextRun({ text: "", font })],
+            spacing: { before: 480 },
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: "000000", space: 1 } },
+            indent: { right: 5400 },
+            keepNext: true,
+          }),
+          new Paragraph({ children: toRuns(line.runs), spacing: { before: 60 }, keepNext: true })
+        );
+      } else {
+        children.push(
+          new Paragraph({
+            children: toRuns(line.runs),
+            spacing,
+            keepNext: line.kind === "closing" || line.kind === "signature",
+          })
+        );
+      }
+    }
+
+    const header = letterhead
+      ? new Header({
+          children: [
+            new Paragraph({
+              alignment: AlignmentType.CENTER,
+              children: [
+                new TextRun({ text: letterhead.name, bold: true, font, size: 28 }),
+              ],
+            }),
+            ...letterhead.lines.map(
+              (text, index, all) =>
+                new Paragraph({
+                  alignment: AlignmentType.CENTER,
+                  children: [new TextRun({ text, font, size: 18 })],
+                  ...(index === all.length - 1
+                    ? {
+                        border: {
+                          bottom: { style: BorderStyle.SINGLE, size: 6, color: "000000", space: 4 },
+                        },
+                      }
+                    : {}),
+                })
+            ),
+          ],
+        })
+      : undefined;
+
+    const document = new Document({
+      creator: letterhead?.name ?? "Overturn",
+      title,
+      sections: [
+        {
+          properties: {
+            page: {
+              size: { width: 12240, height: 15840 },
+              margin: { top: 1440, bottom: 1440, left: 1440, right: 1440 },
+            },
+          },
+          ...(header ? { headers: { default: header } } : {}),
+          footers: {
+            default: new Footer({
+              children: [
+                new Paragraph({
+                  alignment: AlignmentType.CENTER,
+                  children: [
+                    new TextRun({
+                      children: ["Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES],
+                      font,
+                      size: 18,
+                    }),
+                  ],
+                }),
+              ],
+            }),
+          },
+          children,
+        },
+      ],
+    });
+    return Packer.toBuffer(document);
+  }
+
+  private async renderPdf(
+    lines: LetterLine[],
+    title: string,
+    letterhead: Letterhead | null
+  ): Promise<Buffer> {
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(title);
+    pdf.setCreator(letterhead?.name ?? "Overturn");
+    const regular = await pdf.embedFont(StandardFonts.TimesRoman);
+    const bold = await pdf.embedFont(StandardFonts.TimesRomanBold);
+    const top = PAGE_HEIGHT - MARGIN - (letterhead ? LETTERHEAD_HEIGHT : 0);
+    const width = PAGE_WIDTH - MARGIN * 2;
+
+    let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = top;
+    const ensureSpace = (height: number) => {
+      if (y - height < MARGIN) {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = top;
+      }
+    };
+
+    let signatureStarted = false;
+    for (const [index, line] of lines.entries()) {
+      if (line.kind === "blank") {
+        y -= BODY_SIZE * 0.8;
+        continue;
+      }
+      const size = line.kind === "heading" ? HEADING_SIZES[line.level] : BODY_SIZE;
+      const leading = size * 1.3;
+      const runs =
+        line.kind === "heading" ? line.runs.map((run) => ({ ...run, bold: true })) : line.runs;
+      const indent = line.kind === "bullet" ? 14 : 0;
+      const wrapped = wrapRuns(runs, { regular, bold }, size, width - indent);
+
+      if (line.kind === "heading") {
+        // Keep a heading with the first lines of the section it introduces.
+        ensureSpace(leading * (wrapped.length + 2) + 6);
+        y -= 6;
+      } else if (line.kind === "closing") {
+        // Keep the closing, signature space and signer lines on one page.
+        const signerLines = lines.slice(index + 1).filter((entry) => entry.kind === "signature");
+        ensureSpace(leading * (wrapped.length + signerLines.length) + 48);
+      } else if (line.kind === "signature" && !signatureStarted) {
+        signatureStarted = true;
+        y -= 36;
+        page.drawLine({
+          start: { x: MARGIN, y: y - 2 },
+          end: { x: MARGIN + 200, y: y - 2 },
+          thickness: 0.75,
+          color: rgb(0, 0, 0),
+        });
+        y -= 6;
+      } else {
+        ensureSpace(leading);
+      }
+
+      for (const [lineIndex, segments] of wrapped.entries()) {
+        ensureSpace(leading);
+        y -= leading;
+        if (line.kind === "bullet" && lineIndex === 0) {
+          page.drawText("•", { x: MARGIN + 2, y, size, font: regular });
+        }
+        let x = MARGIN + indent;
+        for (const segment of segments) {
+          const font = segment.bold ? bold : regular;
+          page.drawText(segment.text, { x, y, size, font });
+          x += font.widthOfTextAtSize(segment.text, size);
+        }
+      }
+    }
+
+    const pages = pdf.getPages();
+    for (const [index, current] of pages.entries()) {
+      if (letterhead) {
+        drawLetterhead(current, letterhead, { regular, bold });
+      }
+      const label = `Page ${index + 1} of ${pages.length}`;
+      current.drawText(label, {
+        x: (PAGE_WIDTH - regular.widthOfTextAtSize(label, 9)) / 2,
+        y: MARGIN / 2,
+        size: 9,
+        font: regular,
+      });
+    }
+    return Buffer.from(await pdf.save());
+  }
+}
+
+const letterheadFromEnv = (): Letterhead | null => {
+  const name = process.env.APPEAL_LETTERHEAD_NAME?.trim();
+  if (!name) {
+    return null;
+  }
+  return {
+    name,
+    lines: (process.env.APPEAL_LETTERHEAD_LINES ?? "")
+      .split("|")
+      .map((line) => line.trim())
+      .filter(Boolean),
+  };
+};
+
+const CLOSING_REGEX = /^(?:sincerely|respectfully(?: submitted)?|regards|best regards|thank you),?$/i;
+
+/** Splits the draft into lines; everything after the closing ("Sincerely,") is the signature block. */
+const parseLetter = (markdown: string): LetterLine[] => {
+  const lines: LetterLine[] = [];
+  let inSignature = false;
+  for (const rawLine of markdown.replace(/\r\n/g, "\n").split("\n")) {
+    const line = rawLine.trimEnd();
+    if (!line.trim()) {
+      if (lines.length > 0 && lines[lines.length - 1].kind !== "blank") {
+        lines.push({ kind: "blank" });
+      }
+      continue;
+    }
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    const bullet = /^\s*[-*]\s+(.*)$/.exec(line);
+    if (heading) {
+      lines.push({
+        kind: "heading",
+        level: heading[1].length as 1 | 2 | 3,
+        runs: parseInline(heading[2]),
+      });
+    } else if (bullet) {
+      lines.push({ kind: "bullet", runs: parseInline(bullet[1]) });
+    } else if (CLOSING_REGEX.test(line.trim())) {
+      inSignature = true;
+      lines.push({ kind: "closing", runs: parseInline(line.trim()) });
+    } else {
+      lines.push({ kind: inSignature ? "signature" : "paragraph", runs: parseInline(line.trim()) });
+    }
+  }
+  // The signature block sits directly under the signature rule, without the blank line from the markdown.
+  return lines.filter(
+    (line, index) => !(line.kind === "blank" && lines[index + 1]?.kind === "signature")
+  );
+};
+
+const parseInline = (text: string): InlineRun[] =>
+  text
+    .split(/(\*\*[^*]+\*\*)/)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith("**") && part.endsWith("**") && part.length > 4
+        ? { text: part.slice(2, -2), bold: true }
+        : { text: part, bold: false }
+    );
+
+/** Greedy word wrap across runs that may use different fonts. */
+const wrapRuns = (
+  runs: InlineRun[],
+  fonts: { regular: PDFFont; bold: PDFFont },
+  size: number,
+  maxWidth: number
+): InlineRun[][] => {
+  const lines: InlineRun[][] = [[]];
+  let lineWidth = 0;
+  for (const run of runs) {
+    const font = run.bold ? fonts.bold : fonts.regular;
+    for (const word of toWinAnsi(run.text, font).split(/(?<=\s)/)) {
+      const wordWidth = font.widthOfTextAtSize(word, size);
+      const trimmedWidth = font.widthOfTextAtSize(word.trimEnd(), size);
+      if (lineWidth > 0 && lineWidth + trimmedWidth > maxWidth) {
+        lines.push([]);
+        lineWidth = 0;
+      }
+      const current = lines[lines.length - 1];
+      const text = lineWidth === 0 ? word.trimStart() : word;
+      const previous = current[current.length - 1];
+      if (previous && previous.bold === run.bold) {
+        previous.text += text;
+      } else {
+        current.push({ text, bold: run.bold });
+      }
+      lineWidth += lineWidth === 0 ? font.widthOfTextAtSize(text, size) : wordWidth;
+    }
+  }
+  return lines.filter((line) => line.length > 0);
+};
+
+// The standard PDF fonts only cover WinAnsi; anything else would make drawText throw.
+const toWinAnsi = (text: string, font: PDFFont): string => {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(
+    text.replace(/\t/g, " ").replace(/→/g, "->").replace(/≥/g, ">=").replace(/≤/g, "<=")
+  )
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : "?"))
+    .join("");
+};
+
+const drawLetterhead = (
+  page: PDFPage,
+  letterhead: Letterhead,
+  fonts: { regular: PDFFont; bold: PDFFont }
+) => {
+  const centered = (text: string, y: number, size: number, font: PDFFont) => {
+    const safe = toWinAnsi(text, font);
+    page.drawText(safe, {
+      x: (PAGE_WIDTH - font.widthOfTextAtSize(safe, size)) / 2,
+      y,
+      size,
+      font,
+    });
+  };
+  let y = PAGE_HEIGHT - MARGIN + 14;
+  centered(letterhead.name, y, 14, fonts.bold);
+  for (const line of letterhead.lines.slice(0, 3)) {
+    y -= 11;
+    centered(line, y, 9, fonts.regular);
+  }
+  page.drawLine({
+    start: { x: MARGIN, y: y - 6 },
+    end: { x: PAGE_WIDTH - MARGIN, y: y - 6 },
+    thickness: 0.75,
+    color: rgb(0, 0, 0),
+  });
+};
+
+const safeFileName = (name: string): string =>
+  name.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^_+|_+$/g, "") || "appeal";
@@ -1,36 +1,294 @@
+import fs from "node:fs";
+import path from "node:path";
+
 import type { z } from "zod";
 
-import { generateAppealDraftSchema } from "../schemas/tool-schemas.js";
+import {
+  APPEAL_TEMPLATES,
+  DEFAULT_APPEAL_TEMPLATE_ID,
+  type AppealTemplate,
+} from "../constants/appeal-templates.js";
+import {
+  ADJUSTMENT_ONLY_CARC_CODES,
+  CarcCategoryMapping,
+  type DenialCategory,
+} from "../constants/denial.js";
+import {
+  appealTemplateSchema,
+  generateAppealDraftSchema,
+} from "../schemas/tool-schemas.js";
+import { getErrorMessage } from "../utils/errors.js";
+import { isRemarkCode, normalizeCode } from "../utils/normalization.js";
+
+export type AppealDraftInput = z.infer<typeof generateAppealDraftSchema>;
+
+export interface LoadedAppealTemplate extends AppealTemplate {
+  source: "builtin" | "organization";
+  file_path: string | null;
+}
+
+export interface AppealDraft {
+  markdown: string;
+  template_id: string;
+  template_source: LoadedAppealTemplate["source"];
+  /** Placeholders left as [Bracketed Label] markers because the input had no value for them. */
+  missing_placeholders: string[];
+}
 
 export class AppealGenerationService {
-  generateAppealDraft(input: z.infer<typeof generateAppealDraftSchema>): string {
+  // Organization templates come first so they win code and category matches.
+  private readonly templates: LoadedAppealTemplate[];
+
+  constructor(templatesDir = process.env.APPEAL_TEMPLATES_DIR) {
+    const organizationTemplates = templatesDir
+      ? this.loadOrganizationTemplates(path.resolve(templatesDir))
+      : [];
+    const overridden = new Set(organizationTemplates.map((template) => template.id));
+    this.templates = [
+      ...organizationTemplates,
+      ...APPEAL_TEMPLATES.filter((template) => !overridden.has(template.id)).map(
+        (template): LoadedAppealTemplate => ({ ...template, source: "builtin", file_path: null })
+      ),
+    ];
+  }
+
+  listTemplates(): LoadedAppealTemplate[] {
+    return [...this.templates];
+  }
+
+  /**
+   * Explicit template_id, then the denial_category, then the first CARC with a
+   * template, then the CARCs' categories, then the general template.
+   * Adjustment-only CARCs such as 45 are tried after real denial codes.
+   */
+  selectTemplate(input: AppealDraftInput): LoadedAppealTemplate {
+    if (input.template_id) {
+      const template = this.templates.find((entry) => entry.id === input.template_id);
+      if (!template) {
+        throw new Error(
+          `Unknown appeal template '${input.template_id}'. Available templates: ${this.templates.map((entry) => entry.id).join(", ")}.`
+        );
+      }
+      return template;
+    }
+
+    const findByCategory = (category: DenialCategory) =>
+      this.templates.find((entry) => entry.denial_categories.includes(category));
+    if (input.denial_category) {
+      const template = findByCategory(input.denial_category);
+      if (template) {
+        return template;
+      }
+    }
+
+    const normalized = (input.denial_codes ?? [])
+      .filter((code) => !isRemarkCode(code))
+      .map(normalizeCode);
+    const carcCodes = [
+      ...normalized.filter((code) => !ADJUSTMENT_ONLY_CARC_CODES.has(code)),
+      ...normalized.filter((code) => ADJUSTMENT_ONLY_CARC_CODES.has(code)),
+    ];
+    for (const code of carcCodes) {
+      const template = this.templates.find((entry) => entry.carc_codes.includes(code));
+      if (template) {
+        return template;
+      }
+    }
+
+    const categories = carcCodes.flatMap((code) => CarcCategoryMapping[code] ?? []);
+    for (const category of categories) {
+      const template = findByCategory(category);
+      if (template) {
+        return template;
+      }
+    }
+
+    return this.templates.find((entry) => entry.id === DEFAULT_APPEAL_TEMPLATE_ID)!;
+  }
+
+  /**
+   * Fills every placeholder the input has data for. Missing values are left as
+   * bracketed markers such as [Member ID] and listed in missing_placeholders.
+   */
+  generateAppealDraft(input: AppealDraftInput): AppealDraft {
+    const template = this.selectTemplate(input);
     const today = new Date().toISOString().slice(0, 10);
-    return [
-      `# Appeal Letter - Claim ${input.original_claim_id}`,
+    const values = placeholderValues(input, today);
+    const missing = new Set<string>();
+    const fill = (value: string) =>
+      value.replace(/\{\{\s*(\w+)\s*\}\}/g, (_placeholder, name: string) => {
+        const filled = values[name];
+        if (filled) {
+          return filled;
+        }
+        missing.add(name);
+        return `[${placeholderLabel(name)}]`;
+      });
+    // Lines that are left out of the letter when there is no data for them.
+    const optional = (name: string, line: string) => (values[name] ? [fill(line)] : []);
+
+    const sections = [...template.sections];
+    // Organization templates may leave out the justification; it is required input, so keep it in the letter.
+    if (!sections.some((section) => /\{\{\s*clinical_justification\s*\}\}/.test(section.body))) {
+      sections.push({ heading: "Supporting Justification", body: "{{clinical_justification}}" });
+    }
+    const enclosures = Array.from(
+      new Set([...template.enclosures.map(fill), ...(input.enclosures ?? [])])
+    );
+
+    const markdown = [
+      `# ${template.title} - Claim ${input.original_claim_id}`,
       "",
       `**Date:** ${today}`,
       `**Claim ID:** ${input.original_claim_id}`,
+      fill("**Member:** {{member_name}}"),
+      fill("**Member ID:** {{member_id}}"),
+      fill("**Date of Birth:** {{member_date_of_birth}}"),
+      ...optional("member_group_number", "**Group Number:** {{member_group_number}}"),
+      fill("**Dates of Service:** {{dates_of_service}}"),
+      ...optional("procedure_codes", "**Procedure Codes:** {{procedure_codes}}"),
+      ...optional("diagnosis_codes", "**Diagnosis Codes:** {{diagnosis_codes}}"),
+      ...(input.denial_codes?.length
+        ? [`**Denial Codes:** ${input.denial_codes.join(", ")}`]
+        : []),
       "",
-      "To: Claims Review Department",
-      "",
-      "## Re: Request for Reconsideration",
-      "",
-      `I am writing to formally appeal the denial of claim **${input.original_claim_id}**.`,
+      fill("To: {{payer_name}} {{payer_appeals_department}}"),
+      fill("{{payer_appeals_address}}"),
+      ...optional("payer_appeals_fax", "Fax: {{payer_appeals_fax}}"),
       "",
-      "### Denial Reason Cited by Payer",
-      input.denial_reason,
+      `## Re: ${fill(template.subject)}`,
       "",
-      "### Clinical Justification",
-      input.clinical_justification_text,
+      fill(template.argument),
       "",
+      ...sections.flatMap((section) => [`### ${fill(section.heading)}`, fill(section.body), ""]),
       "### Request",
-      "Based on the documentation and clinical rationale above, please reconsider and reprocess this claim for payment.",
+      fill(template.requested_remedy),
       "",
+      ...(enclosures.length > 0
+        ? ["### Enclosures", ...enclosures.map((enclosure) => `- ${enclosure}`), ""]
+        : []),
       "Sincerely,",
       "",
-      "[Provider Name]",
-      "[Title]",
-      "[Organization]",
+      fill("{{provider_name}}"),
+      ...optional("provider_title", "{{provider_title}}"),
+      fill("NPI: {{provider_npi}}"),
+      fill("{{practice_name}}"),
+      fill("{{practice_address}}"),
+      fill("Phone: {{practice_phone}}"),
+      ...optional("practice_fax", "Fax: {{practice_fax}}"),
+      ...optional("practice_tax_id", "Tax ID: {{practice_tax_id}}"),
     ].join("\n");
+
+    return {
+      markdown,
+      template_id: template.id,
+      template_source: template.source,
+      missing_placeholders: Array.from(missing),
+    };
+  }
+
+  /** Reads *.json files holding one template or an array of templates. Invalid files are skipped with a warning. */
+  private loadOrganizationTemplates(directory: string): LoadedAppealTemplate[] {
+    let fileNames: string[];
+    try {
+      fileNames = fs
+        .readdirSync(directory)
+        .filter((name) => name.toLowerCase().endsWith(".json"))
+        .sort();
+    } catch (err) {
+      process.stderr.write(
+        `[appeal-templates] Cannot read APPEAL_TEMPLATES_DIR ${directory}: ${getErrorMessage(err)}\n`
+      );
+      return [];
+    }
+
+    const templates: LoadedAppealTemplate[] = [];
+    for (const fileName of fileNames) {
+      const filePath = path.join(directory, fileName);
+      try {
+        const parsed: unknown = JSON.parse(fs.readFileSync(filePath, "utf8"));
+        const fileTemplates = (Array.isArray(parsed) ? parsed : [parsed]).map((entry) => {
+          const result = appealTemplateSchema.safeParse(entry);
+          if (!result.success) {
+            throw new Error(
+              result.error.issues
+                .map((issue) => `${issue.path.join(".") || "template"}: ${issue.message}`)
+                .join("; ")
+            );
+          }
+          return result.data;
+        });
+        for (const template of fileTemplates) {
+          if (templates.some((existing) => existing.id === template.id)) {
+            throw new Error(`Duplicate template id '${template.id}'.`);
+          }
+        }
+        templates.push(
+          ...fileTemplates.map((template): LoadedAppealTemplate => ({
+            ...template,
+            carc_codes: template.carc_codes.map(normalizeCode),
+            source: "organization",
+            file_path: filePath,
+          }))
+        );
+      } catch (err) {
+        process.stderr.write(
+          `[appeal-templates] Skipping ${filePath}: ${getErrorMessage(err)}\n`
+        );
+      }
+    }
+    return templates;
   }
 }
+
+const placeholderValues = (
+  input: AppealDraftInput,
+  today: string
+): Record<string, string | undefined> => {
+  const list = (values: string[] | undefined) =>
+    values && values.length > 0 ? values.join(", ") : undefined;
+  return {
+    claim_id: input.original_claim_id,
+    denial_reason: input.denial_reason,
+    clinical_justification: input.clinical_justification_text,
+    denial_codes: list(input.denial_codes) ?? "see the denial reason below",
+    date: today,
+    provider_name: input.provider
+      ? [input.provider.name, input.provider.credentials].filter(Boolean).join(", ")
+      : undefined,
+    provider_credentials: input.provider?.credentials,
+    provider_title: input.provider?.title,
+    provider_npi: input.provider?.npi,
+    practice_name: input.practice?.name,
+    practice_address: input.practice?.address,
+    practice_phone: input.practice?.phone,
+    practice_fax: input.practice?.fax,
+    practice_tax_id: input.practice?.tax_id,
+    payer_name: input.payer?.name,
+    payer_appeals_department: input.payer?.appeals_department ?? "Appeals Department",
+    payer_appeals_address: input.payer?.appeals_address,
+    payer_appeals_fax: input.payer?.appeals_fax,
+    member_name: input.member?.name,
+    member_id: input.member?.member_id,
+    member_date_of_birth: input.member?.date_of_birth,
+    member_group_number: input.member?.group_number,
+    dates_of_service: list(input.dates_of_service),
+    procedure_codes: list(input.procedure_codes),
+    diagnosis_codes: list(input.diagnosis_codes),
+  };
+};
+
+// "member_id" -> "Member ID", "member_date_of_birth" -> "Member Date of Birth".
+const placeholderLabel = (name: string): string =>
+  name
+    .split("_")
+    .map((word, index) => {
+      if (["id", "npi", "dob"].includes(word)) {
+        return word.toUpperCase();
+      }
+      if (index > 0 && ["of", "and", "for"].includes(word)) {
+        return word;
+      }
+      return word.charAt(0).toUpperCase() + word.slice(1);
+    })
+    .join(" ");
@@ -0,0 +1,332 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import {
+  CLAIM_STATUS_CODE_LIST_NOTE,
+  ClaimStatusCategoryMapping,
+  ClaimStatusCodeMapping,
+  StatusEntityMapping,
+  type ClaimStatusDisposition,
+} from "../constants/claim-status.js";
+import {
+  components,
+  element,
+  parseX12Document,
+  toAmount,
+  toIsoDate,
+  validateX12Envelopes,
+  type X12Delimiters,
+  type X12Segment,
+} from "../utils/x12.js";
+
+export interface ClaimStatus {
+  category_code: string;
+  category: string;
+  status_code: string;
+  status: string;
+  /** False when the code is not in the bundled subset of code list 508. */
+  status_code_found: boolean;
+  entity_code: string | null;
+  entity: string | null;
+  disposition: ClaimStatusDisposition | "unknown";
+  requires_corrected_resubmission: boolean;
+  explanation: string;
+  recommended_action: string;
+  effective_date: string | null;
+}
+
+export interface AcknowledgedServiceLine {
+  procedure_code: string;
+  modifiers: string[];
+  charge_amount: number | null;
+  service_date: string | null;
+  statuses: ClaimStatus[];
+}
+
+export interface AcknowledgedClaim {
+  patient_control_number: string;
+  payer_claim_control_number: string | null;
+  clearinghouse_trace_number: string | null;
+  patient_name: string | null;
+  member_id: string | null;
+  billing_provider: { name: string | null; npi: string | null };
+  total_charge_amount: number | null;
+  service_date: string | null;
+  statuses: ClaimStatus[];
+  service_lines: AcknowledgedServiceLine[];
+}
+
+type HierarchyLevel = "payer" | "receiver" | "provider" | "patient";
+
+export class ClaimAcknowledgmentParsingService {
+  async extractFromFile(filePath: string) {
+    const resolvedPath = path.resolve(filePath);
+    const content = await fs.readFile(resolvedPath, "utf8");
+    return { file_path: resolvedPath, ...this.parse(content) };
+  }
+
+  parse(content: string) {
+    const document = parseX12Document(content);
+    const warnings = validateX12Envelopes(document.segments);
+    const { claims, batchStatuses, transactionCount } = this.parseTransactions(
+      document.segments,
+      document.delimiters,
+      warnings
+    );
+
+    if (transactionCount === 0) {
+      throw new Error(
+        "Invalid 277CA acknowledgment: no ST*277 transaction sets were found."
+      );
+    }
+
+    return {
+      interchange: document.interchange,
+      batch_statuses: batchStatuses,
+      claims: claims.map((claim) => this.summarizeClaim(claim)),
+      status_code_list: {
+        bundled_codes: Object.keys(ClaimStatusCodeMapping).length,
+        complete: false,
+        note: CLAIM_STATUS_CODE_LIST_NOTE,
+      },
+      warnings,
+    };
+  }
+
+  private summarizeClaim(claim: AcknowledgedClaim) {
+    const allStatuses = [
+      ...claim.statuses,
+      ...claim.service_lines.flatMap((line) => line.statuses),
+    ];
+    const needsCorrectedResubmission = allStatuses.some(
+      (status) => status.requires_corrected_resubmission
+    );
+    const disposition = needsCorrectedResubmission
+      ? "rejected"
+      : claim.statuses[0]?.disposition ?? "unknown";
+
+    return {
+      ...claim,
+      disposition,
+      needs_corrected_resubmission: needsCorrectedResubmission,
+      next_step: needsCorrectedResubmission
+        ? "Front-end rejection: correct the flagged fields and submit a corrected claim. Do not file an appeal; the claim never entered adjudication."
+        : claim.statuses[0]?.recommended_action ??
+          "No claim status was reported; confirm status with the payer.",
+    };
+  }
+
+  private parseTransactions(
+    segments: X12Segment[],
+    delimiters: X12Delimiters,
+    warnings: string[]
+  ) {
+    const claims: AcknowledgedClaim[] = [];
+    const batchStatuses: Array<ClaimStatus & { level: HierarchyLevel }> = [];
+    let transactionCount = 0;
+    let inTransaction = false;
+    let level: HierarchyLevel = "payer";
+    let provider: AcknowledgedClaim["billing_provider"] = { name: null, npi: null };
+    let patient: { name: string | null; member_id: string | null } = {
+      name: null,
+      member_id: null,
+    };
+    let claim: AcknowledgedClaim | null = null;
+    let line: AcknowledgedServiceLine | null = null;
+
+    for (const segment of segments) {
+      if (segment.id === "ST") {
+        inTransaction = element(segment, 1) === "277";
+        if (!inTransaction) {
+          warnings.push(
+            `Skipped transaction set ${element(segment, 1)} ${element(segment, 2)}; only 277CA is supported.`
+          );
+        } else {
+          transactionCount += 1;
+        }
+        claim = null;
+        line = null;
+        continue;
+      }
+
+      if (!inTransaction) {
+        continue;
+      }
+
+      switch (segment.id) {
+        case "HL":
+          level = this.toHierarchyLevel(element(segment, 3));
+          claim = null;
+          line = null;
+          if (level === "provider") {
+            provider = { name: null, npi: null };
+          }
+          if (level === "patient") {
+            patient = { name: null, member_id: null };
+          }
+          break;
+        case "NM1":
+          if (level === "provider" && element(segment, 1) === "85") {
+            provider = {
+              name:
+                [element(segment, 4), element(segment, 3)].filter(Boolean).join(" ") ||
+                null,
+              npi: element(segment, 8) === "XX" ? element(segment, 9) || null : null,
+            };
+          } else if (level === "patient" && ["QC", "IL"].includes(element(segment, 1))) {
+            patient = {
+              name:
+                [element(segment, 4), element(segment, 3)].filter(Boolean).join(" ") ||
+                null,
+              member_id: element(segment, 9) || null,
+            };
+          }
+          break;
+        case "TRN":
+          if (level === "patient" && element(segment, 1) === "2") {
+            claim = {
+              patient_control_number: element(segment, 2),
+              payer_claim_control_number: null,
+              clearinghouse_trace_number: null,
+              patient_name: patient.name,
+              member_id: patient.member_id,
+              billing_provider: provider,
+              total_charge_amount: null,
+              service_date: null,
+              statuses: [],
+              service_lines: [],
+            };
+            claims.push(claim);
+            line = null;
+          }
+          break;
+        case "STC": {
+          const statuses = this.parseStatuses(segment, delimiters);
+          if (line) {
+            line.statuses.push(...statuses);
+          } else if (claim) {
+            claim.statuses.push(...statuses);
+            claim.total_charge_amount =
+              claim.total_charge_amount ?? toAmount(element(segment, 4));
+          } else {
+            batchStatuses.push(
+              ...statuses.map((status) => ({ ...status, level }))
+            );
+          }
+          break;
+        }
+        case "REF":
+          if (claim && !line && element(segment, 1) === "1K") {
+            claim.payer_claim_control_number = element(segment, 2) || null;
+          } else if (claim && !line && element(segment, 1) === "D9") {
+            claim.clearinghouse_trace_number = element(segment, 2) || null;
+          }
+          break;
+        case "DTP":
+          if (element(segment, 1) === "472") {
+            const date = toIsoDate(element(segment, 3).split("-")[0] ?? "");
+            if (line) {
+              line.service_date = date;
+            } else if (claim) {
+              claim.service_date = date;
+            }
+          }
+          break;
+        case "SVC":
+          if (claim) {
+            const [, code = "", ...modifiers] = components(
+              element(segment, 1),
+              delimiters
+            );
+            line = {
+              procedure_code: code,
+              modifiers: modifiers.filter(Boolean),
+              charge_amount: toAmount(element(segment, 2)),
+              service_date: null,
+              statuses: [],
+            };
+            claim.service_lines.push(line);
+          }
+          break;
+        case "SE":
+          inTransaction = false;
+          claim = null;
+          line = null;
+          break;
+        default:
+          break;
+      }
+    }
+
+    return { claims, batchStatuses, transactionCount };
+  }
+
+  /** STC01, STC10 and STC11 each carry a category:status:entity composite. */
+  private parseStatuses(
+    segment: X12Segment,
+    delimiters: X12Delimiters
+  ): ClaimStatus[] {
+    const effectiveDate = toIsoDate(element(segment, 2));
+    return [1, 10, 11]
+      .map((position) => element(segment, position))
+      .filter(Boolean)
+      .map((composite) => {
+        const [categoryCode = "", statusCode = "", entityCode = ""] = components(
+          composite,
+          delimiters
+        );
+        return this.describeStatus(categoryCode, statusCode, entityCode, effectiveDate);
+      });
+  }
+
+  private describeStatus(
+    categoryCode: string,
+    statusCode: string,
+    entityCode: string,
+    effectiveDate: string | null
+  ): ClaimStatus {
+    const category =
+      ClaimStatusCategoryMapping[
+        categoryCode as keyof typeof ClaimStatusCategoryMapping
+      ];
+    const knownStatus = ClaimStatusCodeMapping[statusCode];
+    const status = knownStatus ?? `Status code ${statusCode}`;
+    const entity = entityCode
+      ? StatusEntityMapping[entityCode] ?? `Entity ${entityCode}`
+      : null;
+
+    return {
+      category_code: categoryCode,
+      category: category?.title ?? `Category ${categoryCode}`,
+      status_code: statusCode,
+      status,
+      status_code_found: knownStatus !== undefined,
+      entity_code: entityCode || null,
+      entity,
+      disposition: category?.disposition ?? "unknown",
+      requires_corrected_resubmission:
+        category?.requiresCorrectedResubmission ?? false,
+      explanation: [
+        category?.explanation ?? "Unrecognized claim status category.",
+        entity ? `${status} (${entity}).` : `${status}.`,
+      ].join(" "),
+      recommended_action:
+        category?.recommendedAction ??
+        "Look up the category code in the X12 claim status code lists.",
+      effective_date: effectiveDate,
+    };
+  }
+
+  private toHierarchyLevel(code: string): HierarchyLevel {
+    switch (code) {
+      case "20":
+        return "payer";
+      case "21":
+        return "receiver";
+      case "19":
+        return "provider";
+      default:
+        return "patient";
+    }
+  }
+}
@@ -1,19 +1,70 @@
-import { DenialMapping } from "../constants/denial.js";
-import { normalizeCode } from "../utils/normalization.js";
+import {
+  CarcCategoryMapping,
+  DenialCategoryKeywords,
+  GroupCodeMapping,
+  RarcCategoryMapping,
+  type DenialCategory,
+  type GroupCode,
+  type LiableParty,
+} from "../constants/denial.js";
+import {
+  extractGroupCode,
+  isRemarkCode,
+  normalizeCode,
+} from "../utils/normalization.js";
+import type { DenialAmounts } from "../schemas/tool-schemas.js";
+import { addDays, daysBetween, todayIso } from "../utils/dates.js";
+import {
+  identifierTypeOf,
+  isValidNpi,
+  ocrDigitCorrection,
+  payerIdFormatIssue,
+  tinFormatIssue,
+  type ProviderIdentifierType,
+} from "../utils/identifiers.js";
+import {
+  AdjustmentCodeDictionary,
+  UNDATED_CODE_NOTE,
+} from "./adjustment-code-dictionary.service.js";
+
+export type CodeAnalysis = ReturnType<DenialAnalysisService["analyzeCodes"]>[number];
+export type DenialClassification = ReturnType<DenialAnalysisService["classifyDenial"]>;
+
+type CategoryEvidence = {
+  source: "carc" | "rarc" | "reason_text" | "policy_reference";
+  value: string;
+  category: DenialCategory;
+  weight: number;
+};
+
+const CATEGORY_WEIGHTS = {
+  carc: 3,
+  rarc: 2,
+  reason_text: 2,
+  policy_reference: 1,
+} as const;
 
 export class DenialAnalysisService {
-  analyzeCodes(codes: string[]) {
+  private readonly dictionary: AdjustmentCodeDictionary;
+
+  constructor(dictionary = new AdjustmentCodeDictionary()) {
+    this.dictionary = dictionary;
+  }
+
+  analyzeCodes(codes: string[], asOfDate?: string) {
     return codes.map((code) => {
       const normalizedCode = normalizeCode(code);
-      const mapped = DenialMapping[normalizedCode as keyof typeof DenialMapping];
+      const liability = this.describeLiability(code);
+      const mapped = this.dictionary.lookup(normalizedCode, asOfDate);
 
       if (!mapped) {
         return {
           input_code: code,
           normalized_code: normalizedCode,
           found: false,
+          ...liability,
           explanation:
-            "Unknown code in local CARC dictionary. Use denial-knowledge-base resource for additional context.",
+            "Code is not in the bundled CARC/RARC subset. Check the published lists at x12.org and the denial-knowledge-base resource for additional context.",
         };
       }
 
@@ -21,10 +72,480 @@ export class DenialAnalysisService {
         input_code: code,
         normalized_code: normalizedCode,
         found: true,
+        code_type: mapped.code_type,
+        ...liability,
         title: mapped.title,
         explanation: mapped.explanation,
-        recommended_action: mapped.recommendedAction,
+        recommended_action: mapped.recommended_action,
+        effective_date: mapped.effective_date,
+        deactivation_date: mapped.deactivation_date,
+        active_on_date: mapped.active_on_date,
+        ...(mapped.active_on_date === null
+          ? { date_note: UNDATED_CODE_NOTE }
+          : {}),
+      };
+    });
+  }
+
+  /**
+   * Pairs each RARC with the CARC it explains. With source text, a remark code
+   * belongs to the nearest CARC before it (same line first); without text, it
+   * can only be paired when a single CARC was reported.
+   */
+  attachRemarkCodes(
+    results: CodeAnalysis[],
+    remarkCodes: string[],
+    options: { asOfDate?: string; rawText?: string } = {}
+  ) {
+    const carcResults = results.filter(
+      (result) => !isRemarkCode(result.normalized_code)
+    );
+    const remarkAnalyses = Array.from(
+      new Set(remarkCodes.map((code) => normalizeCode(code)))
+    ).map((code) => {
+      const mapped = this.dictionary.lookup(code, options.asOfDate);
+      return {
+        code,
+        found: mapped !== null,
+        title: mapped?.title ?? "Unknown remark code",
+        explanation:
+          mapped?.explanation ??
+          "Code is not in the bundled CARC/RARC subset. Check the published lists at x12.org and the denial-knowledge-base resource for additional context.",
+        recommended_action: mapped?.recommended_action,
+        ...(mapped?.active_on_date === null
+          ? { date_note: UNDATED_CODE_NOTE }
+          : {}),
+      };
+    });
+
+    const pairedTo = new Map<string, string>();
+    for (const remark of remarkAnalyses) {
+      const carcInput = options.rawText
+        ? this.findPrecedingCarc(
+            options.rawText,
+            remark.code,
+            carcResults.map((result) => result.input_code)
+          )
+        : carcResults.length === 1
+          ? carcResults[0].input_code
+          : null;
+      if (carcInput) {
+        pairedTo.set(remark.code, carcInput);
+      }
+    }
+
+    return {
+      results: results.map((result) => ({
+        ...result,
+        remark_codes: remarkAnalyses.filter(
+          (remark) => pairedTo.get(remark.code) === result.input_code
+        ),
+      })),
+      unpaired_remark_codes: remarkAnalyses.filter(
+        (remark) => !pairedTo.has(remark.code)
+      ),
+    };
+  }
+
+  /**
+   * Analyzes each service line's codes on their own, resolving code text as of
+   * the line's date of service. Remark codes pair within the line only.
+   */
+  analyzeServiceLines(
+    lines: Array<{
+      line_number?: number;
+      procedure_code?: string;
+      modifiers?: string[];
+      service_date?: string | null;
+      denial_codes: string[];
+      remark_codes?: string[];
+      amounts?: DenialAmounts;
+    }>,
+    asOfDate?: string
+  ) {
+    return lines.map((line, index) => {
+      const lineDate = line.service_date ?? asOfDate;
+      const analysis = this.analyzeCodes(
+        line.denial_codes.filter((code) => !isRemarkCode(code)),
+        lineDate
+      );
+      const withRemarks = this.attachRemarkCodes(
+        analysis,
+        [
+          ...(line.remark_codes ?? []),
+          ...line.denial_codes.filter((code) => isRemarkCode(code)),
+        ],
+        { asOfDate: lineDate }
+      );
+      return {
+        line_number: line.line_number ?? index + 1,
+        procedure_code: line.procedure_code ?? null,
+        modifiers: line.modifiers ?? [],
+        service_date: line.service_date ?? null,
+        denial_code_analysis: withRemarks.results,
+        unpaired_remark_codes: withRemarks.unpaired_remark_codes,
+        group_summary: this.summarizeByGroup(analysis),
+        ...(line.amounts
+          ? { amount_reconciliation: this.reconcileAmounts(line.amounts) }
+          : {}),
       };
     });
   }
+
+  summarizeByGroup(results: CodeAnalysis[]) {
+    const groups = new Map<
+      string,
+      {
+        group_code: GroupCode | null;
+        group_title: string;
+        financially_liable_party: LiableParty;
+        provider_can_bill_patient: boolean;
+        codes: string[];
+      }
+    >();
+
+    for (const result of results) {
+      if (result.financially_liable_party === "not_applicable") {
+        continue;
+      }
+      const key = result.group_code ?? "UNGROUPED";
+      const existing = groups.get(key) ?? {
+        group_code: result.group_code,
+        group_title: result.group_title,
+        financially_liable_party: result.financially_liable_party,
+        provider_can_bill_patient: result.provider_can_bill_patient,
+        codes: [],
+      };
+      existing.codes.push(result.normalized_code);
+      groups.set(key, existing);
+    }
+
+    return Array.from(groups.values()).map((group) => ({
+      ...group,
+      codes: Array.from(new Set(group.codes)),
+    }));
+  }
+
+  /**
+   * Scores each appeal category from CARCs, RARCs, phrases in the denial
+   * reason and policy references. Confidence grows with the winning score and
+   * with its lead over the runner-up.
+   */
+  classifyDenial(input: {
+    denialCodes: string[];
+    remarkCodes?: string[];
+    denialReasonText?: string;
+    policyReferences?: string[];
+  }) {
+    const evidence: CategoryEvidence[] = [];
+    const codes = [...input.denialCodes, ...(input.remarkCodes ?? [])];
+
+    for (const code of codes) {
+      const normalized = normalizeCode(code);
+      const isRemark = isRemarkCode(normalized);
+      const category = isRemark
+        ? RarcCategoryMapping[normalized]
+        : CarcCategoryMapping[normalized];
+      if (category) {
+        const source = isRemark ? "rarc" : "carc";
+        evidence.push({ source, value: code, category, weight: CATEGORY_WEIGHTS[source] });
+      }
+    }
+
+    const matchKeywords = (
+      textValue: string,
+      source: "reason_text" | "policy_reference"
+    ) => {
+      for (const [category, patterns] of Object.entries(DenialCategoryKeywords)) {
+        for (const pattern of patterns) {
+          const match = pattern.exec(textValue);
+          if (match) {
+            evidence.push({
+              source,
+              value: source === "reason_text" ? match[0] : textValue,
+              category: category as DenialCategory,
+              weight: CATEGORY_WEIGHTS[source],
+            });
+          }
+        }
+      }
+    };
+    if (input.denialReasonText) {
+      matchKeywords(input.denialReasonText, "reason_text");
+    }
+    for (const reference of input.policyReferences ?? []) {
+      matchKeywords(reference, "policy_reference");
+    }
+
+    const scores: Partial<Record<DenialCategory, number>> = {};
+    for (const item of evidence) {
+      scores[item.category] = (scores[item.category] ?? 0) + item.weight;
+    }
+    const ranked = (Object.entries(scores) as Array<[DenialCategory, number]>).sort(
+      (a, b) => b[1] - a[1]
+    );
+
+    if (ranked.length === 0) {
+      return {
+        category: "other" as DenialCategory,
+        confidence: 0.2,
+        evidence,
+        scores,
+      };
+    }
+
+    const [category, top] = ranked[0];
+    const runnerUp = ranked[1]?.[1] ?? 0;
+    const strength = Math.min(1, top / 5);
+    const margin = (top - runnerUp) / top;
+    return {
+      category,
+      confidence: Math.round((0.35 + 0.6 * strength * (0.5 + 0.5 * margin)) * 100) / 100,
+      evidence: evidence.filter((item) => item.category === category),
+      scores,
+    };
+  }
+
+  /**
+   * Turns the letter date and appeal window into an absolute due date. The
+   * window is counted from the letter date, which is the earliest date a payer
+   * could count from, so the result never overstates the time left.
+   */
+  computeAppealDeadline(
+    letterDate: string,
+    appealWindowDays: number | null,
+    today = todayIso()
+  ) {
+    const knownLetterDate = /^\d{4}-\d{2}-\d{2}$/.test(letterDate) ? letterDate : null;
+    if (!knownLetterDate || !appealWindowDays) {
+      return {
+        letter_date: knownLetterDate,
+        appeal_window_days: appealWindowDays,
+        due_date: null,
+        days_remaining: null,
+        status: "unknown" as const,
+        note: knownLetterDate
+          ? "No appeal window was found in the letter. Check the plan documents; ERISA plans must allow at least 180 days for a first-level appeal."
+          : "No letter date was found. Count the appeal window from the date printed on the letter or its envelope.",
+      };
+    }
+
+    const dueDate = addDays(knownLetterDate, appealWindowDays);
+    const daysRemaining = daysBetween(today, dueDate);
+    return {
+      letter_date: knownLetterDate,
+      appeal_window_days: appealWindowDays,
+      due_date: dueDate,
+      days_remaining: daysRemaining,
+      status:
+        daysRemaining < 0
+          ? ("past_due" as const)
+          : daysRemaining <= 14
+            ? ("due_soon" as const)
+            : ("open" as const),
+      note: "Counted from the letter date. Some plans count from the date the notice was received; file before this date and keep proof of timely submission.",
+    };
+  }
+
+  /**
+   * Checks billed − adjustments = paid + patient responsibility, falling back
+   * to allowed = paid + patient responsibility when adjustments are not
+   * stated. A gap of more than a cent usually means the payer mis-posted a
+   * payment or adjustment.
+   */
+  reconcileAmounts(amounts: DenialAmounts) {
+    const { billed, allowed, paid, adjustments } = amounts;
+    const patientResponsibility = amounts.patient_responsibility;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    if (paid !== null && patientResponsibility !== null) {
+      const actual = round(paid + patientResponsibility);
+      if (billed !== null && adjustments !== null) {
+        return this.reconciliationResult(
+          "billed_minus_adjustments",
+          "Billed minus adjustments",
+          round(billed - adjustments),
+          actual
+        );
+      }
+      if (allowed !== null) {
+        return this.reconciliationResult("allowed", "The allowed amount", allowed, actual);
+      }
+    }
+
+    const missing = Object.entries(amounts)
+      .filter(([, value]) => value === null)
+      .map(([key]) => key);
+    return {
+      status: "incomplete" as const,
+      check: null,
+      expected: null,
+      actual: null,
+      difference: null,
+      likely_payer_error: false,
+      message: `Not enough amounts to reconcile; missing ${missing.join(", ")}.`,
+    };
+  }
+
+  /**
+   * Checks provider NPIs (check digit), TINs and payer IDs (format). CARC 16
+   * ("claim lacks information or has billing errors") is often caused by one
+   * of these being wrong on the claim.
+   */
+  validateIdentifiers(
+    identifiers: Array<{ label: string; value: string }>,
+    denialCodes: string[] = []
+  ) {
+    const checks = identifiers.flatMap((identifier) => {
+      const type = identifierTypeOf(identifier.label);
+      if (!type) {
+        return [];
+      }
+      const issue = this.identifierIssue(type, identifier.value);
+      const correction = issue ? ocrDigitCorrection(identifier.value) : null;
+      const suggestedValue =
+        correction && !this.identifierIssue(type, correction) ? correction : null;
+      return [
+        {
+          label: identifier.label,
+          value: identifier.value,
+          type,
+          valid: issue === null,
+          issue,
+          suggested_value: suggestedValue,
+        },
+      ];
+    });
+
+    const invalid = checks.filter((check) => !check.valid);
+    const hasCarc16 = denialCodes.some((code) => normalizeCode(code) === "16");
+    let note: string;
+    if (invalid.length === 0) {
+      note =
+        checks.length > 0
+          ? "All provider and payer identifiers passed validation."
+          : "No NPI, TIN or payer ID was found to validate.";
+    } else {
+      const labels = invalid.map((check) => check.label).join(", ");
+      note = hasCarc16
+        ? `Invalid identifiers (${labels}) likely explain the CARC 16 denial; confirm the values on the original claim and submit a corrected claim rather than an appeal.`
+        : `Invalid identifiers (${labels}) are likely OCR errors in this document or billing errors on the claim; confirm them against the original claim.`;
+    }
+
+    return {
+      checks,
+      invalid_count: invalid.length,
+      likely_carc_16_cause: hasCarc16 && invalid.length > 0,
+      note,
+    };
+  }
+
+  private identifierIssue(type: ProviderIdentifierType, value: string): string | null {
+    if (type === "npi") {
+      return isValidNpi(value.replace(/[\s-]/g, ""))
+        ? null
+        : "Not a valid NPI: it must be 10 digits starting with 1 or 2 and pass the check digit.";
+    }
+    return type === "tin" ? tinFormatIssue(value) : payerIdFormatIssue(value);
+  }
+
+  private reconciliationResult(
+    check: "billed_minus_adjustments" | "allowed",
+    description: string,
+    expected: number,
+    actual: number
+  ) {
+    const difference = Math.round((expected - actual) * 100) / 100;
+    const balanced = Math.abs(difference) <= 0.01;
+    return {
+      status: balanced ? ("balanced" as const) : ("mismatch" as const),
+      check,
+      expected,
+      actual,
+      difference,
+      likely_payer_error: !balanced,
+      message: balanced
+        ? `${description} equals paid plus patient responsibility.`
+        : `${description} is ${expected.toFixed(2)} but paid plus patient responsibility is ${actual.toFixed(2)} (difference ${difference.toFixed(2)}). This is likely a payer posting error; request a corrected remittance or raise it in the appeal.`,
+    };
+  }
+
+  private findPrecedingCarc(
+    rawText: string,
+    remarkCode: string,
+    carcInputs: string[]
+  ): string | null {
+    const remarkIndex = new RegExp(String.raw`\b${remarkCode}\b`).exec(
+      rawText
+    )?.index;
+    if (remarkIndex === undefined) {
+      return carcInputs.length === 1 ? carcInputs[0] : null;
+    }
+
+    const lineStart = rawText.lastIndexOf("\n", remarkIndex) + 1;
+    let best: { input: string; index: number } | null = null;
+    for (const input of carcInputs) {
+      for (const match of rawText.matchAll(this.carcOccurrencePattern(input))) {
+        if (match.index >= remarkIndex) {
+          break;
+        }
+        if (!best || match.index > best.index) {
+          best = { input, index: match.index };
+        }
+      }
+    }
+
+    if (best && (best.index >= lineStart || remarkIndex - best.index <= 300)) {
+      return best.input;
+    }
+    return carcInputs.length === 1 ? carcInputs[0] : null;
+  }
+
+  private carcOccurrencePattern(input: string): RegExp {
+    const groupCode = extractGroupCode(input);
+    const code = normalizeCode(input);
+    return groupCode
+      ? new RegExp(String.raw`\b${groupCode}\s*-?\s*${code}\b`, "gi")
+      : new RegExp(String.raw`(?<![\w.$-])${code}(?![\w.])`, "g");
+  }
+
+  private describeLiability(code: string): {
+    group_code: GroupCode | null;
+    group_title: string;
+    financially_liable_party: LiableParty | "not_applicable";
+    provider_can_bill_patient: boolean;
+    group_action_note: string;
+  } {
+    if (isRemarkCode(code)) {
+      return {
+        group_code: null,
+        group_title: "Remark code",
+        financially_liable_party: "not_applicable",
+        provider_can_bill_patient: false,
+        group_action_note:
+          "Remark codes carry no group code; liability follows the CARC they accompany.",
+      };
+    }
+
+    const groupCode = extractGroupCode(code) as GroupCode | null;
+    if (!groupCode) {
+      return {
+        group_code: null,
+        group_title: "No group code reported",
+        financially_liable_party: "unknown",
+        provider_can_bill_patient: false,
+        group_action_note:
+          "No CO/PR/OA/PI group was reported; confirm the group on the remittance before billing the patient.",
+      };
+    }
+
+    const group = GroupCodeMapping[groupCode];
+    return {
+      group_code: groupCode,
+      group_title: group.title,
+      financially_liable_party: group.liableParty,
+      provider_can_bill_patient: group.providerCanBillPatient,
+      group_action_note: group.actionNote,
+    };
+  }
 }
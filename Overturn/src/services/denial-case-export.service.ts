@@ -0,0 +1,329 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+
+import type { DenialCategory } from "../constants/denial.js";
+import type {
+  ParsedDenialFields,
+  ServiceLine,
+} from "../schemas/tool-schemas.js";
+import {
+  extractedField,
+  locateValue,
+  spanAt,
+  type DenialFieldEvidence,
+  type ExtractedField,
+  type SourceSpan,
+} from "../utils/source-spans.js";
+import type { DenialClassification } from "./denial-analysis.service.js";
+
+// The interfaces below mirror appeal-writer-mcp/src/types.ts so the exported
+// object can be passed straight to appeal.plan / appeal.generate.
+
+export type ServiceStatus = "DENIED" | "APPROVED" | "PARTIAL" | "UNKNOWN";
+
+export interface ServiceItem {
+  serviceName: string;
+  cptCodes: string[];
+  amountRequested: number | null;
+  currency: string;
+  status: ServiceStatus;
+}
+
+export interface DenialCase {
+  caseId: string;
+  payerName: ExtractedField<string>;
+  payerAddress: ExtractedField<string>;
+  letterDate: ExtractedField<string>;
+  memberName: ExtractedField<string>;
+  memberId: ExtractedField<string>;
+  claimNumber: ExtractedField<string>;
+  providerName: ExtractedField<string>;
+  serviceDate: ExtractedField<string>;
+  services: ExtractedField<ServiceItem[]>;
+  denialCategory: ExtractedField<DenialCategory>;
+  denialReasonSummary: ExtractedField<string>;
+  policyReferences: ExtractedField<Array<{ policyId: string; title?: string }>>;
+  patientResponsibilityAmount: ExtractedField<number>;
+  appealWindowDays: ExtractedField<number>;
+  appealSubmissionMethods: ExtractedField<
+    Array<"mail" | "fax" | "portal" | "phone" | "other">
+  >;
+  appealInstructions: ExtractedField<string>;
+  requiredAttachments: ExtractedField<string[]>;
+  missingInformation: ExtractedField<string[]>;
+  rawText: string;
+  docMeta: { docId: string; filename: string; mimeType: string };
+}
+
+export type ParsedDenialFieldsWithEvidence = ParsedDenialFields & {
+  document_id: string;
+  field_evidence: DenialFieldEvidence;
+};
+
+const MEMBER_ID_LABELS = ["member_id", "subscriber_id"];
+
+// "Please include the following with your appeal:" and the list under it.
+const ATTACHMENT_LIST_REGEX =
+  /\b(?:include|enclose|attach|submit|send)\b[^\n.:]*?\b(?:with|to)\s+(?:your|the|this)\s+(?:appeal|request|reconsideration)\b[^\n.:]*:[ \t]*\n((?:[ \t]*(?:[-*\u2022]|\d{1,2}[.)])[ \t]+[^\n]+(?:\n|$))+)/gi;
+// "Include a copy of this letter and the medical records with your appeal."
+const ATTACHMENT_SENTENCE_REGEX =
+  /\b(?:include|enclose|attach|submit|send)\s+([^.\n:]{3,200}?)\s+(?:with|to)\s+(?:your|the|this)\s+(?:appeal|request|reconsideration)\b/gi;
+
+// Letters often name no attachments, so an empty value is not missing information.
+const OPTIONAL_CASE_FIELDS = new Set(["requiredAttachments"]);
+
+export class DenialCaseExportService {
+  toDenialCase(input: {
+    rawText: string;
+    filename: string;
+    mimeType?: string;
+    parsedFields: ParsedDenialFieldsWithEvidence;
+    classification: DenialClassification;
+  }): DenialCase {
+    const { rawText, parsedFields } = input;
+    const evidence = parsedFields.field_evidence;
+    const notExtracted = <T>(): ExtractedField<T> => extractedField<T>(null, 0);
+
+    const memberIdField = evidence.identifiers.find(
+      (field) => field.value && MEMBER_ID_LABELS.includes(field.value.label)
+    );
+
+    const denialCase: Omit<DenialCase, "missingInformation"> = {
+      caseId: createHash("sha256")
+        .update(`${parsedFields.document_id}:${parsedFields.claim_id}`)
+        .digest("hex")
+        .slice(0, 16),
+      payerName: this.relabel(evidence.payer_name, "payerName"),
+      payerAddress: this.relabel(evidence.appeals_address, "payerAddress"),
+      letterDate: this.relabel(evidence.letter_date, "letterDate"),
+      memberName: this.relabel(evidence.patient_name, "memberName"),
+      memberId: memberIdField
+        ? this.relabel(
+            extractedField(
+              memberIdField.value?.value ?? null,
+              memberIdField.confidence,
+              memberIdField.spans
+            ),
+            "memberId"
+          )
+        : notExtracted(),
+      claimNumber: this.relabel(evidence.claim_id, "claimNumber"),
+      providerName: this.relabel(evidence.provider_name, "providerName"),
+      serviceDate: this.serviceDateField(evidence.service_lines),
+      services:
+        evidence.service_lines.length > 0
+          ? this.combine(evidence.service_lines, "services", (lines) =>
+              lines.map((line) => ({
+                serviceName: [line.procedure_code, ...line.modifiers].join("-"),
+                cptCodes: [line.procedure_code],
+                amountRequested: line.amounts.billed,
+                currency: "USD",
+                status: this.serviceStatus(line),
+              }))
+            )
+          : this.combine(evidence.cpt_codes, "services", (codes) =>
+              codes.map((code) => ({
+                serviceName: `CPT/HCPCS ${code}`,
+                cptCodes: [code],
+                amountRequested: null,
+                currency: "USD",
+                status: "DENIED" as const,
+              }))
+            ),
+      denialCategory: this.categoryField(
+        rawText,
+        parsedFields.document_id,
+        input.classification,
+        evidence
+      ),
+      denialReasonSummary: this.relabel(
+        evidence.denial_reason_text,
+        "denialReasonSummary"
+      ),
+      policyReferences: this.combine(
+        evidence.policy_references,
+        "policyReferences",
+        (references) => references.map((policyId) => ({ policyId }))
+      ),
+      patientResponsibilityAmount: this.relabel(
+        evidence.amounts.patient_responsibility,
+        "patientResponsibilityAmount"
+      ),
+      appealWindowDays: this.relabel(evidence.appeal_window_days, "appealWindowDays"),
+      appealSubmissionMethods: this.combine(
+        evidence.appeal_submission_methods,
+        "appealSubmissionMethods",
+        (methods) => methods
+      ),
+      appealInstructions: this.appealInstructions(evidence),
+      requiredAttachments: this.requiredAttachments(rawText, parsedFields.document_id),
+      rawText,
+      docMeta: {
+        docId: parsedFields.document_id,
+        filename: path.basename(input.filename),
+        mimeType: input.mimeType ?? "application/pdf",
+      },
+    };
+
+    const missing = Object.entries(denialCase)
+      .filter(
+        ([key, field]) =>
+          !OPTIONAL_CASE_FIELDS.has(key) &&
+          field !== null &&
+          typeof field === "object" &&
+          "value" in field &&
+          field.value === null
+      )
+      .map(([key]) => key);
+
+    return {
+      ...denialCase,
+      missingInformation: extractedField(missing, 1),
+    };
+  }
+
+  /** Grounds the classifier's evidence in the spans of the codes and phrases it used. */
+  private categoryField(
+    rawText: string,
+    docId: string,
+    classification: DenialClassification,
+    evidence: DenialFieldEvidence
+  ): ExtractedField<DenialCategory> {
+    if (classification.evidence.length === 0) {
+      return extractedField<DenialCategory>(
+        classification.category,
+        classification.confidence,
+        [],
+        "No denial code or phrase with a known appeal category was found."
+      );
+    }
+
+    const codeFields = [...evidence.denial_codes, ...evidence.remark_codes];
+    const spans = classification.evidence.flatMap((item) => {
+      if (item.source === "carc" || item.source === "rarc") {
+        return codeFields
+          .filter((field) => field.value === item.value)
+          .flatMap((field) => field.spans);
+      }
+      return locateValue(rawText, item.value, docId, "denialCategory");
+    });
+    return this.relabel(
+      extractedField(classification.category, classification.confidence, spans),
+      "denialCategory"
+    );
+  }
+
+  /** One date, or "first to last" when the lines span several dates. */
+  private serviceDateField(
+    lines: Array<ExtractedField<ServiceLine>>
+  ): ExtractedField<string> {
+    const dated = lines.filter((line) => line.value?.service_date);
+    const dates = Array.from(
+      new Set(dated.map((line) => line.value?.service_date ?? ""))
+    ).sort();
+    if (dates.length === 0) {
+      return extractedField<string>(null, 0);
+    }
+    return this.relabel(
+      extractedField(
+        dates.length === 1 ? dates[0] : `${dates[0]} to ${dates[dates.length - 1]}`,
+        Math.min(...dated.map((line) => line.confidence)),
+        dated.flatMap((line) => line.spans)
+      ),
+      "serviceDate"
+    );
+  }
+
+  private serviceStatus(line: ServiceLine): ServiceStatus {
+    const { paid, billed } = line.amounts;
+    if (paid === null) {
+      return line.denial_codes.length > 0 ? "DENIED" : "UNKNOWN";
+    }
+    if (paid === 0) {
+      return "DENIED";
+    }
+    if (billed !== null && paid < billed && line.denial_codes.length > 0) {
+      return "PARTIAL";
+    }
+    return "APPROVED";
+  }
+
+  private appealInstructions(evidence: DenialFieldEvidence): ExtractedField<string> {
+    const parts = [
+      { field: evidence.appeals_address, text: (value: string) => `Mail appeals to ${value}.` },
+      { field: evidence.appeals_fax, text: (value: string) => `Fax appeals to ${value}.` },
+    ].filter((part) => part.field.value !== null);
+    if (parts.length === 0) {
+      return extractedField<string>(null, 0);
+    }
+    return this.relabel(
+      extractedField(
+        parts.map((part) => part.text(part.field.value ?? "")).join(" "),
+        Math.min(...parts.map((part) => part.field.confidence)),
+        parts.flatMap((part) => part.field.spans)
+      ),
+      "appealInstructions"
+    );
+  }
+
+  /** Reads the documents the letter asks to be sent with an appeal. */
+  private requiredAttachments(rawText: string, docId: string): ExtractedField<string[]> {
+    const items: Array<{ value: string; start: number; end: number }> = [];
+    let confidence = 0.7;
+    for (const match of rawText.matchAll(ATTACHMENT_LIST_REGEX)) {
+      const listStart = match.index + match[0].length - match[1].length;
+      for (const line of match[1].matchAll(/^[ \t]*(?:[-*\u2022]|\d{1,2}[.)])[ \t]+([^\n]+)/gm)) {
+        const start = listStart + line.index + line[0].length - line[1].length;
+        items.push({ value: line[1].trim(), start, end: start + line[1].trimEnd().length });
+      }
+    }
+    if (items.length === 0) {
+      confidence = 0.6;
+      for (const match of rawText.matchAll(ATTACHMENT_SENTENCE_REGEX)) {
+        let offset = match.index + match[0].indexOf(match[1]);
+        // Even parts are items, odd parts the ", " / " and " between them.
+        match[1].split(/(,\s*(?:and\s+)?|\s+and\s+)/).forEach((part, index) => {
+          if (index % 2 === 0 && part.trim()) {
+            items.push({ value: part.trim(), start: offset, end: offset + part.length });
+          }
+          offset += part.length;
+        });
+      }
+    }
+    if (items.length === 0) {
+      return extractedField<string[]>(null, 0);
+    }
+    return extractedField(
+      Array.from(new Set(items.map((item) => item.value.replace(/[.;,]+$/, "")))),
+      confidence,
+      items.map((item) => spanAt(rawText, docId, item.start, item.end, "requiredAttachments"))
+    );
+  }
+
+  private combine<T, U>(
+    fields: Array<ExtractedField<T>>,
+    label: string,
+    build: (values: T[]) => U
+  ): ExtractedField<U> {
+    const values = fields.flatMap((field) => (field.value === null ? [] : [field.value]));
+    if (values.length === 0) {
+      return extractedField<U>(null, 0);
+    }
+    return this.relabel(
+      extractedField(
+        build(values),
+        Math.min(...fields.map((field) => field.confidence)),
+        fields.flatMap((field) => field.spans)
+      ),
+      label
+    );
+  }
+
+  /** appeal-writer cites spans by DenialCase field name. */
+  private relabel<T>(field: ExtractedField<T>, label: string): ExtractedField<T> {
+    return {
+      ...field,
+      spans: field.spans.map((span): SourceSpan => ({ ...span, label })),
+    };
+  }
+}
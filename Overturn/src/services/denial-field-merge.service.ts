@@ -0,0 +1,621 @@
+import type { DenialAmounts } from "../schemas/tool-schemas.js";
+import { extractGroupCode, normalizeCode } from "../utils/normalization.js";
+import type { DenialFieldEvidence, ExtractedField } from "../utils/source-spans.js";
+import type { ParsedDenialFieldsWithEvidence } from "./denial-case-export.service.js";
+
+export type FieldSource = "regex" | "llm" | "both" | "none";
+
+export interface FieldDisagreement {
+  field: string;
+  regex_value: unknown;
+  llm_value: unknown;
+  chosen_value: unknown;
+  chosen_source: Exclude<FieldSource, "none">;
+  reason: string;
+}
+
+type ScalarField =
+  | "claim_id"
+  | "patient_name"
+  | "patient_address"
+  | "denial_reason_text"
+  | "letter_date"
+  | "appeals_address"
+  | "appeals_fax"
+  | "payer_name"
+  | "provider_name";
+
+type CodeListField =
+  | "denial_codes"
+  | "remark_codes"
+  | "cpt_codes"
+  | "diagnosis_codes";
+
+// Exact tokens the regex parser reads at known offsets; when both parsers
+// find different values in the text, the regex value wins for these.
+const REGEX_PREFERRED_FIELDS = new Set<string>([
+  "claim_id",
+  "letter_date",
+  "appeals_fax",
+  "appeal_window_days",
+]);
+
+const SCALAR_FIELDS: Array<{ field: ScalarField; unknown: string }> = [
+  { field: "claim_id", unknown: "UNKNOWN" },
+  { field: "patient_name", unknown: "UNKNOWN" },
+  { field: "patient_address", unknown: "UNKNOWN" },
+  { field: "denial_reason_text", unknown: "Reason not clearly found in document." },
+  { field: "letter_date", unknown: "UNKNOWN" },
+  { field: "appeals_address", unknown: "UNKNOWN" },
+  { field: "appeals_fax", unknown: "UNKNOWN" },
+  { field: "payer_name", unknown: "UNKNOWN" },
+  { field: "provider_name", unknown: "UNKNOWN" },
+];
+
+const CODE_LIST_FIELDS: CodeListField[] = [
+  "denial_codes",
+  "remark_codes",
+  "cpt_codes",
+  "diagnosis_codes",
+];
+
+// A code only one parser reported is kept when it was found in the text with
+// at least this confidence (regex bare-number CARCs score below it).
+const ONE_SIDED_CODE_MIN_CONFIDENCE = 0.6;
+
+type Candidate<T> = { value: T; field: ExtractedField<T> };
+
+/**
+ * Merges regex and LLM parses field by field. Agreement wins outright; when
+ * only one parser found a value it is used; when they disagree, the value that
+ * can be located in the raw text wins and the conflict is reported.
+ */
+export class DenialFieldMergeService {
+  merge(
+    regex: ParsedDenialFieldsWithEvidence,
+    llm: ParsedDenialFieldsWithEvidence
+  ) {
+    const disagreements: FieldDisagreement[] = [];
+    const sources: Record<string, FieldSource> = {};
+    const merged: ParsedDenialFieldsWithEvidence = {
+      ...llm,
+      field_evidence: { ...llm.field_evidence },
+    };
+    const evidence = merged.field_evidence;
+
+    for (const { field, unknown } of SCALAR_FIELDS) {
+      const result = this.mergeScalar(
+        field,
+        this.candidate(regex[field], regex.field_evidence[field], unknown),
+        this.candidate(llm[field], llm.field_evidence[field], unknown),
+        (value) => value.toLowerCase().split(/[\s,.]+/).join(" ").trim()
+      );
+      merged[field] = result.candidate?.value ?? unknown;
+      evidence[field] = result.candidate?.field ?? regex.field_evidence[field];
+      sources[field] = result.source;
+      disagreements.push(...result.disagreements);
+    }
+
+    const appealWindow = this.mergeScalar(
+      "appeal_window_days",
+      this.candidate(
+        regex.appeal_window_days,
+        regex.field_evidence.appeal_window_days,
+        null
+      ),
+      this.candidate(llm.appeal_window_days, llm.field_evidence.appeal_window_days, null),
+      String
+    );
+    merged.appeal_window_days = appealWindow.candidate?.value ?? null;
+    evidence.appeal_window_days =
+      appealWindow.candidate?.field ?? regex.field_evidence.appeal_window_days;
+    sources.appeal_window_days = appealWindow.source;
+    disagreements.push(...appealWindow.disagreements);
+
+    for (const key of Object.keys(merged.amounts) as Array<keyof DenialAmounts>) {
+      const result = this.mergeScalar(
+        `amounts.${key}`,
+        this.candidate(regex.amounts[key], regex.field_evidence.amounts[key], null),
+        this.candidate(llm.amounts[key], llm.field_evidence.amounts[key], null),
+        (value) => value.toFixed(2)
+      );
+      merged.amounts = { ...merged.amounts, [key]: result.candidate?.value ?? null };
+      evidence.amounts = {
+        ...evidence.amounts,
+        [key]: result.candidate?.field ?? regex.field_evidence.amounts[key],
+      };
+      sources[`amounts.${key}`] = result.source;
+      disagreements.push(...result.disagreements);
+    }
+
+    for (const field of CODE_LIST_FIELDS) {
+      const result =
+        field === "denial_codes"
+          ? this.mergeDenialCodes(regex.field_evidence[field], llm.field_evidence[field])
+          : this.mergeCodes(
+              field,
+              regex.field_evidence[field],
+              llm.field_evidence[field],
+              (code) => code.toUpperCase()
+            );
+      merged[field] = result.fields.flatMap((item) =>
+        item.value === null ? [] : [item.value]
+      );
+      evidence[field] = result.fields;
+      sources[field] = result.source;
+      disagreements.push(...result.disagreements);
+    }
+
+    const identifiers = this.mergeIdentifiers(
+      regex.field_evidence.identifiers,
+      llm.field_evidence.identifiers
+    );
+    merged.identifiers = identifiers.fields.flatMap((item) =>
+      item.value === null ? [] : [item.value]
+    );
+    evidence.identifiers = identifiers.fields;
+    sources.identifiers = identifiers.source;
+    disagreements.push(...identifiers.disagreements);
+
+    const methods = this.union(
+      regex.field_evidence.appeal_submission_methods,
+      llm.field_evidence.appeal_submission_methods,
+      (method) => method
+    );
+    merged.appeal_submission_methods = methods.fields.flatMap((item) =>
+      item.value === null ? [] : [item.value]
+    );
+    evidence.appeal_submission_methods = methods.fields;
+    sources.appeal_submission_methods = methods.source;
+
+    const references = this.union(
+      regex.field_evidence.policy_references,
+      llm.field_evidence.policy_references,
+      (reference) => reference.toLowerCase()
+    );
+    merged.policy_references = references.fields.flatMap((item) =>
+      item.value === null ? [] : [item.value]
+    );
+    evidence.policy_references = references.fields;
+    sources.policy_references = references.source;
+
+    const serviceLines = this.mergeServiceLines(regex, llm);
+    merged.service_lines = serviceLines.lines;
+    evidence.service_lines = serviceLines.evidence;
+    sources.service_lines = serviceLines.source;
+    disagreements.push(...serviceLines.disagreements);
+
+    return {
+      fields: { ...merged, extraction_notes: this.extractionNotes(merged) },
+      field_sources: sources,
+      field_disagreements: disagreements,
+    };
+  }
+
+  private extractionNotes(fields: ParsedDenialFieldsWithEvidence) {
+    return {
+      claim_id_found: fields.claim_id !== "UNKNOWN",
+      patient_name_found: fields.patient_name !== "UNKNOWN",
+      patient_address_found: fields.patient_address !== "UNKNOWN",
+      identifiers_found: fields.identifiers.length > 0,
+      denial_codes_found: fields.denial_codes.length > 0,
+      remark_codes_found: fields.remark_codes.length > 0,
+      cpt_codes_found: fields.cpt_codes.length > 0,
+      diagnosis_codes_found: fields.diagnosis_codes.length > 0,
+      denial_reason_found:
+        fields.denial_reason_text !== "Reason not clearly found in document.",
+      letter_date_found: fields.letter_date !== "UNKNOWN",
+      appeal_window_found: fields.appeal_window_days !== null,
+      amounts_found: Object.values(fields.amounts).some((amount) => amount !== null),
+      service_lines_found: fields.service_lines.length > 0,
+    };
+  }
+
+  private candidate<T>(
+    value: T | null,
+    field: ExtractedField<T>,
+    unknown: T | null
+  ): Candidate<T> | null {
+    return value === null || value === unknown ? null : { value, field };
+  }
+
+  private mergeScalar<T>(
+    name: string,
+    regex: Candidate<T> | null,
+    llm: Candidate<T> | null,
+    comparable: (value: T) => string
+  ): {
+    candidate: Candidate<T> | null;
+    source: FieldSource;
+    disagreements: FieldDisagreement[];
+  } {
+    if (!regex || !llm) {
+      return {
+        candidate: regex ?? llm,
+        source: regex ? "regex" : llm ? "llm" : "none",
+        disagreements: [],
+      };
+    }
+
+    if (comparable(regex.value) === comparable(llm.value)) {
+      return {
+        candidate: regex.field.spans.length > 0 ? regex : llm,
+        source: "both",
+        disagreements: [],
+      };
+    }
+
+    const regexInText = regex.field.spans.length > 0;
+    const llmInText = llm.field.spans.length > 0;
+    let chosen: "regex" | "llm";
+    let reason: string;
+    if (regexInText !== llmInText) {
+      chosen = regexInText ? "regex" : "llm";
+      reason = `Only the ${chosen} value was found in the document text.`;
+    } else if (REGEX_PREFERRED_FIELDS.has(name)) {
+      chosen = "regex";
+      reason = regexInText
+        ? "Both values appear in the text; the regex value was read from a labelled position."
+        : "Neither value was found verbatim in the text; kept the regex value.";
+    } else {
+      chosen = "llm";
+      reason = regexInText
+        ? "Both values appear in the text; the LLM value reflects the surrounding context."
+        : "Neither value was found verbatim in the text; kept the LLM value.";
+    }
+
+    const winner = chosen === "regex" ? regex : llm;
+    return {
+      candidate: winner,
+      source: chosen,
+      disagreements: [
+        {
+          field: name,
+          regex_value: regex.value,
+          llm_value: llm.value,
+          chosen_value: winner.value,
+          chosen_source: chosen,
+          reason,
+        },
+      ],
+    };
+  }
+
+  private mergeCodes(
+    name: CodeListField,
+    regexFields: Array<ExtractedField<string>>,
+    llmFields: Array<ExtractedField<string>>,
+    key: (code: string) => string
+  ) {
+    const byKey = (fields: Array<ExtractedField<string>>) =>
+      new Map(
+        fields.flatMap((field) =>
+          field.value === null ? [] : [[key(field.value), field] as const]
+        )
+      );
+    const regexCodes = byKey(regexFields);
+    const llmCodes = byKey(llmFields);
+
+    const kept: Array<ExtractedField<string>> = [];
+    const dropped: string[] = [];
+    for (const codeKey of new Set([...regexCodes.keys(), ...llmCodes.keys()])) {
+      const fromRegex = regexCodes.get(codeKey);
+      const fromLlm = llmCodes.get(codeKey);
+      if (fromRegex && fromLlm) {
+        // Keep the longer spelling with grounded spans.
+        const value =
+          (fromLlm.value ?? "").length > (fromRegex.value ?? "").length
+            ? fromLlm.value
+            : fromRegex.value;
+        kept.push({
+          ...fromRegex,
+          value,
+          confidence: Math.max(fromRegex.confidence, fromLlm.confidence),
+        });
+        continue;
+      }
+      const only = (fromRegex ?? fromLlm) as ExtractedField<string>;
+      if (only.spans.length > 0 && only.confidence >= ONE_SIDED_CODE_MIN_CONFIDENCE) {
+        kept.push(only);
+      } else {
+        dropped.push(only.value ?? codeKey);
+      }
+    }
+
+    const regexValues = regexFields.map((field) => field.value);
+    const llmValues = llmFields.map((field) => field.value);
+    const agree =
+      regexCodes.size === llmCodes.size &&
+      [...regexCodes.keys()].every((codeKey) => llmCodes.has(codeKey));
+    const keptValues = kept.map((field) => field.value);
+
+    return {
+      fields: kept,
+      source: this.listSource(regexCodes.size, llmCodes.size),
+      disagreements:
+        agree || regexCodes.size === 0 || llmCodes.size === 0
+          ? []
+          : [
+              {
+                field: name,
+                regex_value: regexValues,
+                llm_value: llmValues,
+                chosen_value: keptValues,
+                chosen_source: "both" as const,
+                reason:
+                  dropped.length > 0
+                    ? `Kept codes both parsers agree on or that were found in the text; dropped ${dropped.join(", ")}.`
+                    : "Kept codes both parsers agree on or that were found in the text.",
+              },
+            ],
+    };
+  }
+
+  /**
+   * CARCs are matched on group and code, so CO-45 and PR-45 are different
+   * codes. A bare "45" backs up a grouped 45 from either parser and is not
+   * kept on its own when a grouped spelling exists. When the parsers give the
+   * same code under different groups, the grounded candidate with the higher
+   * confidence wins and the conflict is reported.
+   */
+  private mergeDenialCodes(
+    regexFields: Array<ExtractedField<string>>,
+    llmFields: Array<ExtractedField<string>>
+  ) {
+    const stronger = (
+      current: ExtractedField<string> | null | undefined,
+      field: ExtractedField<string>
+    ) => (current && current.confidence >= field.confidence ? current : field);
+    const byCode = (fields: Array<ExtractedField<string>>) => {
+      const codes = new Map<
+        string,
+        { grouped: Map<string, ExtractedField<string>>; bare: ExtractedField<string> | null }
+      >();
+      for (const field of fields) {
+        if (field.value === null) {
+          continue;
+        }
+        const code = normalizeCode(field.value);
+        const group = extractGroupCode(field.value);
+        const entry = codes.get(code) ?? { grouped: new Map(), bare: null };
+        if (group) {
+          entry.grouped.set(group, stronger(entry.grouped.get(group), field));
+        } else {
+          entry.bare = stronger(entry.bare, field);
+        }
+        codes.set(code, entry);
+      }
+      return codes;
+    };
+    const regexCodes = byCode(regexFields);
+    const llmCodes = byCode(llmFields);
+    const grounded = (field: ExtractedField<string>) =>
+      field.spans.length > 0 && field.confidence >= ONE_SIDED_CODE_MIN_CONFIDENCE;
+
+    const kept: Array<ExtractedField<string>> = [];
+    const dropped: string[] = [];
+    const disagreements: FieldDisagreement[] = [];
+    let agree = true;
+    for (const code of new Set([...regexCodes.keys(), ...llmCodes.keys()])) {
+      const fromRegex = regexCodes.get(code) ?? { grouped: new Map(), bare: null };
+      const fromLlm = llmCodes.get(code) ?? { grouped: new Map(), bare: null };
+
+      const regexOnly = [...fromRegex.grouped].filter(([group]) => !fromLlm.grouped.has(group));
+      const llmOnly = [...fromLlm.grouped].filter(([group]) => !fromRegex.grouped.has(group));
+      for (const [group, field] of fromRegex.grouped) {
+        const other = fromLlm.grouped.get(group);
+        if (other) {
+          kept.push({ ...field, confidence: Math.max(field.confidence, other.confidence) });
+        }
+      }
+
+      if (regexOnly.length > 0 && llmOnly.length > 0) {
+        const candidates = [
+          ...regexOnly.map(([, field]) => ({ field, source: "regex" as const })),
+          ...llmOnly.map(([, field]) => ({ field, source: "llm" as const })),
+        ];
+        // Regex candidates come first, so they win confidence ties.
+        const chosen = candidates
+          .filter(({ field }) => grounded(field))
+          .reduce<(typeof candidates)[number] | null>(
+            (best, candidate) =>
+              !best || candidate.field.confidence > best.field.confidence ? candidate : best,
+            null
+          );
+        if (chosen) {
+          kept.push(chosen.field);
+        }
+        dropped.push(
+          ...candidates
+            .filter((candidate) => candidate !== chosen)
+            .map(({ field }) => field.value ?? code)
+        );
+        disagreements.push({
+          field: "denial_codes",
+          regex_value: regexOnly.map(([, field]) => field.value),
+          llm_value: llmOnly.map(([, field]) => field.value),
+          chosen_value: chosen?.field.value ?? null,
+          chosen_source: chosen?.source ?? "both",
+          reason: chosen
+            ? `The parsers report CARC ${code} under different group codes; kept ${chosen.field.value}, the one found in the text with the higher confidence.`
+            : `The parsers report CARC ${code} under different group codes and neither was found in the text; dropped both.`,
+        });
+        continue;
+      }
+
+      // Grouped codes only one parser found; a bare code from the other parser backs them up.
+      const oneSided = regexOnly.length > 0 ? regexOnly : llmOnly;
+      const backing = regexOnly.length > 0 ? fromLlm.bare : fromRegex.bare;
+      for (const [, field] of oneSided) {
+        if (backing) {
+          kept.push({ ...field, confidence: Math.max(field.confidence, backing.confidence) });
+          continue;
+        }
+        agree = false;
+        if (grounded(field)) {
+          kept.push(field);
+        } else {
+          dropped.push(field.value ?? code);
+        }
+      }
+
+      if (fromRegex.grouped.size > 0 || fromLlm.grouped.size > 0) {
+        continue;
+      }
+      if (fromRegex.bare && fromLlm.bare) {
+        kept.push({
+          ...fromRegex.bare,
+          confidence: Math.max(fromRegex.bare.confidence, fromLlm.bare.confidence),
+        });
+        continue;
+      }
+      agree = false;
+      const only = (fromRegex.bare ?? fromLlm.bare) as ExtractedField<string>;
+      if (grounded(only)) {
+        kept.push(only);
+      } else {
+        dropped.push(only.value ?? code);
+      }
+    }
+
+    const keptValues = kept.map((field) => field.value);
+    if (!agree && regexCodes.size > 0 && llmCodes.size > 0) {
+      disagreements.unshift({
+        field: "denial_codes",
+        regex_value: regexFields.map((field) => field.value),
+        llm_value: llmFields.map((field) => field.value),
+        chosen_value: keptValues,
+        chosen_source: "both",
+        reason:
+          dropped.length > 0
+            ? `Kept codes both parsers agree on or that were found in the text; dropped ${dropped.join(", ")}.`
+            : "Kept codes both parsers agree on or that were found in the text.",
+      });
+    }
+
+    return {
+      fields: kept,
+      source: this.listSource(regexCodes.size, llmCodes.size),
+      disagreements,
+    };
+  }
+
+  /** Identifiers are unioned; the same label with two different values is a conflict. */
+  private mergeIdentifiers(
+    regexFields: DenialFieldEvidence["identifiers"],
+    llmFields: DenialFieldEvidence["identifiers"]
+  ) {
+    const union = this.union(regexFields, llmFields, (item) =>
+      `${item.label}:${item.value.toUpperCase()}`
+    );
+    const disagreements: FieldDisagreement[] = [];
+    const fields: DenialFieldEvidence["identifiers"] = [];
+    const byLabel = new Map<string, DenialFieldEvidence["identifiers"]>();
+    for (const field of union.fields) {
+      if (field.value) {
+        byLabel.set(field.value.label, [...(byLabel.get(field.value.label) ?? []), field]);
+      }
+    }
+
+    for (const [label, candidates] of byLabel) {
+      const regexCandidate = candidates.find((field) => regexFields.includes(field));
+      const llmCandidate = candidates.find((field) => llmFields.includes(field));
+      if (candidates.length === 1 || !regexCandidate || !llmCandidate) {
+        fields.push(...candidates);
+        continue;
+      }
+      const result = this.mergeScalar(
+        `identifiers.${label}`,
+        this.candidate(regexCandidate.value, regexCandidate, null),
+        this.candidate(llmCandidate.value, llmCandidate, null),
+        (item) => item.value.toUpperCase()
+      );
+      if (result.candidate) {
+        fields.push(result.candidate.field);
+      }
+      disagreements.push(
+        ...result.disagreements.map((disagreement) => ({
+          ...disagreement,
+          regex_value: regexCandidate.value?.value,
+          llm_value: llmCandidate.value?.value,
+          chosen_value: result.candidate?.value.value,
+        }))
+      );
+    }
+
+    return { fields, source: union.source, disagreements };
+  }
+
+  /**
+   * Service lines are compared by their procedure codes. The LLM reads table
+   * layouts more reliably, so its lines win unless none of its codes can be
+   * found in the text.
+   */
+  private mergeServiceLines(
+    regex: ParsedDenialFieldsWithEvidence,
+    llm: ParsedDenialFieldsWithEvidence
+  ) {
+    const codesOf = (fields: ParsedDenialFieldsWithEvidence) =>
+      fields.service_lines.map((line) => line.procedure_code);
+    const source = this.listSource(regex.service_lines.length, llm.service_lines.length);
+
+    if (llm.service_lines.length === 0 || regex.service_lines.length === 0) {
+      const winner = llm.service_lines.length > 0 ? llm : regex;
+      return {
+        lines: winner.service_lines,
+        evidence: winner.field_evidence.service_lines,
+        source,
+        disagreements: [],
+      };
+    }
+
+    const llmGrounded = llm.field_evidence.service_lines.some(
+      (field) => field.spans.length > 0
+    );
+    const winner = llmGrounded ? llm : regex;
+    const same = codesOf(regex).join(",") === codesOf(llm).join(",");
+    return {
+      lines: winner.service_lines,
+      evidence: winner.field_evidence.service_lines,
+      source: same ? ("both" as const) : winner === llm ? ("llm" as const) : ("regex" as const),
+      disagreements: same
+        ? []
+        : [
+            {
+              field: "service_lines",
+              regex_value: codesOf(regex),
+              llm_value: codesOf(llm),
+              chosen_value: codesOf(winner),
+              chosen_source: winner === llm ? ("llm" as const) : ("regex" as const),
+              reason: llmGrounded
+                ? "The parsers read different line items; kept the LLM lines, whose codes appear in the text."
+                : "The LLM line items could not be found in the text; kept the regex lines.",
+            },
+          ],
+    };
+  }
+
+  private union<T>(
+    regexFields: Array<ExtractedField<T>>,
+    llmFields: Array<ExtractedField<T>>,
+    key: (value: T) => string
+  ) {
+    const byKey = new Map<string, ExtractedField<T>>();
+    for (const field of [...regexFields, ...llmFields]) {
+      if (field.value !== null && !byKey.has(key(field.value))) {
+        byKey.set(key(field.value), field);
+      }
+    }
+    return {
+      fields: Array.from(byKey.values()),
+      source: this.listSource(regexFields.length, llmFields.length),
+    };
+  }
+
+  private listSource(regexCount: number, llmCount: number): FieldSource {
+    if (regexCount > 0 && llmCount > 0) {
+      return "both";
+    }
+    return regexCount > 0 ? "regex" : llmCount > 0 ? "llm" : "none";
+  }
+}
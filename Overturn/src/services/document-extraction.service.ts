@@ -0,0 +1,141 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { ocrImage, ocrTiff, type OcrResult } from "@overturn/ocr";
+import mammoth from "mammoth";
+
+import {
+  DOCUMENT_MIME_TYPES,
+  decodeBase64Content,
+  detectDocumentFormat,
+  type DocumentFormat,
+} from "../utils/document-format.js";
+import { buildTextBlocks, type PageLayout } from "../utils/layout.js";
+import { joinPageTexts, splitPages } from "../utils/pages.js";
+import { PdfExtractionService, type OcrMetadata } from "./pdf-extraction.service.js";
+
+export interface DocumentSource {
+  file_path?: string;
+  content_base64?: string;
+  filename?: string;
+}
+
+export interface LoadedDocument {
+  file_path: string | null;
+  filename: string;
+  format: DocumentFormat;
+  mime_type: string;
+  buffer: Buffer;
+}
+
+export class DocumentExtractionService {
+  private readonly pdfExtractionService: PdfExtractionService;
+  private readonly ocrEnabled: boolean;
+
+  constructor(
+    pdfExtractionService = new PdfExtractionService(),
+    ocrEnabled = process.env.OCR_ENABLED !== "false"
+  ) {
+    this.pdfExtractionService = pdfExtractionService;
+    this.ocrEnabled = ocrEnabled;
+  }
+
+  /** Reads the document from file_path or content_base64 and detects its format from magic bytes. */
+  async load(source: DocumentSource): Promise<LoadedDocument> {
+    const filePath = source.file_path ? path.resolve(source.file_path) : null;
+    const buffer = filePath
+      ? await fs.readFile(filePath)
+      : decodeBase64Content(source.content_base64 ?? "");
+    const format = detectDocumentFormat(buffer);
+    return {
+      file_path: filePath,
+      filename: source.filename ?? (filePath ? path.basename(filePath) : `inline.${format}`),
+      format,
+      mime_type: DOCUMENT_MIME_TYPES[format],
+      buffer,
+    };
+  }
+
+  async extractClaimData(document: LoadedDocument) {
+    const { buffer, ...source } = document;
+    switch (document.format) {
+      case "pdf":
+        return { ...source, ...(await this.pdfExtractionService.extractFromBuffer(buffer)) };
+      case "docx":
+        return { ...source, ...(await this.extractDocx(buffer)) };
+      case "tiff":
+      case "jpeg":
+      case "png":
+        return { ...source, ...(await this.extractImage(buffer, document.format)) };
+      case "text":
+        return {
+          ...source,
+          raw_text: buffer.toString("utf8").replace(/\r\n/g, "\n").trim(),
+          pages: [] as PageLayout[],
+          metadata: { pages: 1, ocr: notRecognized() },
+        };
+    }
+  }
+
+  private async extractDocx(buffer: Buffer) {
+    const result = await mammoth.extractRawText({ buffer });
+    return {
+      raw_text: result.value.replace(/\n{3,}/g, "\n\n").trim(),
+      // DOCX has no fixed pagination, so there is no page layout to report.
+      pages: [] as PageLayout[],
+      metadata: {
+        pages: null,
+        conversion_messages: result.messages.map((message) => message.message),
+        ocr: notRecognized(),
+      },
+    };
+  }
+
+  private async extractImage(buffer: Buffer, format: "tiff" | "jpeg" | "png") {
+    if (!this.ocrEnabled) {
+      throw new Error(
+        `OCR is disabled (OCR_ENABLED=false), so text cannot be read from a ${format.toUpperCase()} image.`
+      );
+    }
+    const result: OcrResult =
+      format === "tiff" ? await ocrTiff(buffer) : await ocrImage(buffer);
+    const rawText = joinPageTexts(result.pages.map((page) => page.text));
+    const textRanges = new Map(splitPages(rawText).map((page) => [page.page_number, page]));
+    const ocr: OcrMetadata = {
+      applied: true,
+      engine: result.engine,
+      pages_without_text: result.pages.map((page) => page.page_number),
+      pages: result.pages.map(({ page_number, confidence, word_count }) => ({
+        page_number,
+        confidence,
+        word_count,
+      })),
+      mean_confidence: result.mean_confidence,
+    };
+
+    return {
+      raw_text: rawText,
+      pages: result.pages.map(
+        (page): PageLayout => ({
+          page_number: page.page_number,
+          width: page.width,
+          height: page.height,
+          unit: "px",
+          source: "ocr",
+          raw_text_start: textRanges.get(page.page_number)?.start ?? 0,
+          raw_text_end: textRanges.get(page.page_number)?.end ?? 0,
+          blocks: buildTextBlocks(page.words),
+        })
+      ),
+      metadata: { pages: result.pages.length, ocr },
+    };
+  }
+}
+
+const notRecognized = (): OcrMetadata => ({
+  applied: false,
+  engine: null,
+  pages_without_text: [],
+  pages: [],
+  mean_confidence: null,
+});
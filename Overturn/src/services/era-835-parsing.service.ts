@@ -0,0 +1,568 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import {
+  ClaimPaymentStatusMapping,
+  PaymentMethodMapping,
+} from "../constants/x12.js";
+import {
+  parsedDenialFieldsSchema,
+  type ParsedDenialFields,
+} from "../schemas/tool-schemas.js";
+import {
+  components,
+  element,
+  parseX12Document,
+  toAmount,
+  toIsoDate,
+  validateX12Envelopes,
+  type X12Delimiters,
+  type X12Segment,
+} from "../utils/x12.js";
+import { AdjustmentCodeDictionary } from "./adjustment-code-dictionary.service.js";
+
+export interface EraAdjustment {
+  group_code: string;
+  reason_code: string;
+  amount: number | null;
+  quantity: number | null;
+}
+
+export interface EraServiceLine {
+  procedure_qualifier: string;
+  procedure_code: string;
+  modifiers: string[];
+  revenue_code: string | null;
+  charge_amount: number | null;
+  paid_amount: number | null;
+  allowed_amount: number | null;
+  units_paid: number | null;
+  service_date: string | null;
+  line_control_number: string | null;
+  adjustments: EraAdjustment[];
+  remark_codes: string[];
+}
+
+export interface EraClaim {
+  patient_control_number: string;
+  status_code: string;
+  status_description: string;
+  charge_amount: number | null;
+  paid_amount: number | null;
+  patient_responsibility_amount: number | null;
+  payer_claim_control_number: string | null;
+  patient_name: string | null;
+  member_id: string | null;
+  rendering_provider_npi: string | null;
+  statement_period: { start: string | null; end: string | null };
+  adjustments: EraAdjustment[];
+  remark_codes: string[];
+  amounts: Array<{ qualifier: string; amount: number | null }>;
+  service_lines: EraServiceLine[];
+}
+
+export interface EraTransaction {
+  control_number: string;
+  functional_group_control_number: string | null;
+  version: string | null;
+  payer: { name: string | null; id: string | null; address: string | null };
+  payee: { name: string | null; npi: string | null; tax_id: string | null };
+  payment: {
+    total_amount: number | null;
+    method: string | null;
+    date: string | null;
+    trace_number: string | null;
+  };
+  provider_adjustments: Array<{
+    reason_code: string;
+    reference: string | null;
+    amount: number | null;
+  }>;
+  claims: EraClaim[];
+}
+
+export class Era835ParsingService {
+  private readonly dictionary: AdjustmentCodeDictionary;
+
+  constructor(dictionary = new AdjustmentCodeDictionary()) {
+    this.dictionary = dictionary;
+  }
+
+  async extractFromFile(filePath: string) {
+    const resolvedPath = path.resolve(filePath);
+    const content = await fs.readFile(resolvedPath, "utf8");
+    return { file_path: resolvedPath, ...this.parse(content) };
+  }
+
+  parse(content: string) {
+    const document = parseX12Document(content);
+    const warnings = validateX12Envelopes(document.segments);
+    const transactions = this.parseTransactions(
+      document.segments,
+      document.delimiters,
+      warnings
+    );
+
+    if (transactions.length === 0) {
+      throw new Error(
+        "Invalid 835 remittance: no ST*835 transaction sets were found."
+      );
+    }
+
+    return {
+      interchange: document.interchange,
+      transactions: transactions.map(({ claims, ...summary }) => ({
+        ...summary,
+        claim_count: claims.length,
+      })),
+      claims: transactions.flatMap((transaction) =>
+        transaction.claims.map((claim) => ({
+          transaction_control_number: transaction.control_number,
+          payer_name: transaction.payer.name,
+          claim,
+          parsed_fields: this.toParsedDenialFields(claim, transaction),
+        }))
+      ),
+      warnings,
+    };
+  }
+
+  toParsedDenialFields(
+    claim: EraClaim,
+    transaction: EraTransaction
+  ): ParsedDenialFields {
+    const adjustments = [
+      ...claim.adjustments,
+      ...claim.service_lines.flatMap((line) => line.adjustments),
+    ];
+    const denialCodes = Array.from(
+      new Set(
+        adjustments.map(
+          (adjustment) => `${adjustment.group_code}-${adjustment.reason_code}`
+        )
+      )
+    );
+    const remarkCodes = Array.from(
+      new Set([
+        ...claim.remark_codes,
+        ...claim.service_lines.flatMap((line) => line.remark_codes),
+      ])
+    );
+    const dateOfService =
+      claim.statement_period.start ??
+      claim.service_lines.find((line) => line.service_date)?.service_date ??
+      undefined;
+
+    const lineAllowed = claim.service_lines.map((line) => line.allowed_amount);
+
+    const reasonLines = denialCodes.map((code) => {
+      const entry = this.dictionary.lookup(code, dateOfService);
+      return entry ? `${code}: ${entry.title}` : `${code}: Unknown adjustment reason`;
+    });
+
+    const identifiers = [
+      { label: "patient_control_number", value: claim.patient_control_number },
+      { label: "payer_claim_control_number", value: claim.payer_claim_control_number },
+      { label: "member_id", value: claim.member_id },
+      { label: "rendering_provider_npi", value: claim.rendering_provider_npi },
+      { label: "payer_id", value: transaction.payer.id },
+      { label: "payment_trace_number", value: transaction.payment.trace_number },
+    ].filter((item): item is { label: string; value: string } => Boolean(item.value));
+
+    return parsedDenialFieldsSchema.parse({
+      claim_id: claim.payer_claim_control_number ?? claim.patient_control_number,
+      patient_name: claim.patient_name ?? undefined,
+      payer_name: transaction.payer.name ?? undefined,
+      provider_name: transaction.payee.name ?? undefined,
+      identifiers,
+      denial_codes: denialCodes,
+      remark_codes: remarkCodes,
+      cpt_codes: Array.from(
+        new Set(
+          claim.service_lines
+            .filter((line) => ["HC", "AD", "N4", "ER"].includes(line.procedure_qualifier))
+            .map((line) => line.procedure_code)
+        )
+      ),
+      policy_references: [],
+      denial_reason_text:
+        reasonLines.length > 0
+          ? `${claim.status_description}. ${reasonLines.join("; ")}`
+          : undefined,
+      amounts: {
+        billed: claim.charge_amount,
+        allowed:
+          lineAllowed.length > 0 && lineAllowed.every((amount) => amount !== null)
+            ? lineAllowed.reduce((sum, amount) => sum + (amount ?? 0), 0)
+            : null,
+        paid: claim.paid_amount,
+        // PR adjustments are the patient's share, which CLP05 already reports.
+        adjustments: this.sumAdjustments(adjustments, (group) => group !== "PR"),
+        patient_responsibility: claim.patient_responsibility_amount,
+      },
+      service_lines: claim.service_lines.map((line, index) => ({
+        line_number: index + 1,
+        procedure_code: line.procedure_code,
+        modifiers: line.modifiers,
+        units: line.units_paid,
+        service_date: line.service_date,
+        amounts: {
+          billed: line.charge_amount,
+          allowed: line.allowed_amount,
+          paid: line.paid_amount,
+          adjustments: this.sumAdjustments(line.adjustments, (group) => group !== "PR"),
+          patient_responsibility: this.sumAdjustments(
+            line.adjustments,
+            (group) => group === "PR"
+          ),
+        },
+        denial_codes: Array.from(
+          new Set(
+            line.adjustments.map(
+              (adjustment) => `${adjustment.group_code}-${adjustment.reason_code}`
+            )
+          )
+        ),
+        remark_codes: line.remark_codes,
+      })),
+    });
+  }
+
+  private parseTransactions(
+    segments: X12Segment[],
+    delimiters: X12Delimiters,
+    warnings: string[]
+  ): EraTransaction[] {
+    const transactions: EraTransaction[] = [];
+    let groupControlNumber: string | null = null;
+    let groupVersion: string | null = null;
+    let transaction: EraTransaction | null = null;
+    let claim: EraClaim | null = null;
+    let line: EraServiceLine | null = null;
+    let currentParty: "payer" | "payee" | "other" = "other";
+
+    for (const segment of segments) {
+      if (segment.id === "GS") {
+        groupControlNumber = element(segment, 6) || null;
+        groupVersion = element(segment, 8) || null;
+        continue;
+      }
+
+      if (segment.id === "ST") {
+        if (element(segment, 1) !== "835") {
+          warnings.push(
+            `Skipped transaction set ${element(segment, 1)} ${element(segment, 2)}; only 835 is supported.`
+          );
+          transaction = null;
+          continue;
+        }
+        transaction = this.emptyTransaction(
+          element(segment, 2),
+          groupControlNumber,
+          groupVersion
+        );
+        transactions.push(transaction);
+        claim = null;
+        line = null;
+        currentParty = "other";
+        continue;
+      }
+
+      if (!transaction) {
+        continue;
+      }
+
+      switch (segment.id) {
+        case "BPR":
+          transaction.payment.total_amount = toAmount(element(segment, 2));
+          transaction.payment.method =
+            PaymentMethodMapping[element(segment, 4)] ?? (element(segment, 4) || null);
+          transaction.payment.date = toIsoDate(element(segment, 16));
+          break;
+        case "TRN":
+          // TRN03 is the originating company (usually "1" + the payer's TIN), not a
+          // payer ID; the payer ID comes from N1*PR N104 or REF*2U.
+          transaction.payment.trace_number = element(segment, 2) || null;
+          break;
+        case "N1":
+          if (claim) {
+            break;
+          }
+          currentParty =
+            element(segment, 1) === "PR"
+              ? "payer"
+              : element(segment, 1) === "PE"
+                ? "payee"
+                : "other";
+          if (currentParty === "payer") {
+            transaction.payer.name = element(segment, 2) || null;
+            if (element(segment, 4)) {
+              transaction.payer.id = element(segment, 4);
+            }
+          } else if (currentParty === "payee") {
+            transaction.payee.name = element(segment, 2) || null;
+            if (element(segment, 3) === "XX") {
+              transaction.payee.npi = element(segment, 4) || null;
+            } else if (element(segment, 3) === "FI") {
+              transaction.payee.tax_id = element(segment, 4) || null;
+            }
+          }
+          break;
+        case "N3":
+        case "N4":
+          if (!claim && currentParty === "payer") {
+            const part = segment.elements.slice(1).filter(Boolean).join(" ");
+            transaction.payer.address = transaction.payer.address
+              ? `${transaction.payer.address}, ${part}`
+              : part;
+          }
+          break;
+        case "REF":
+          this.applyReference(segment, transaction, claim, line);
+          break;
+        case "CLP":
+          claim = this.startClaim(segment);
+          transaction.claims.push(claim);
+          line = null;
+          break;
+        case "CAS":
+          if (claim) {
+            (line ?? claim).adjustments.push(...this.parseAdjustments(segment));
+          }
+          break;
+        case "NM1":
+          if (claim) {
+            this.applyClaimEntity(segment, claim);
+          }
+          break;
+        case "MOA":
+          if (claim) {
+            claim.remark_codes.push(
+              ...segment.elements.slice(3, 8).filter(Boolean)
+            );
+          }
+          break;
+        case "MIA":
+          if (claim) {
+            claim.remark_codes.push(
+              ...[5, 20, 21, 22, 23]
+                .map((position) => element(segment, position))
+                .filter(Boolean)
+            );
+          }
+          break;
+        case "DTM":
+          this.applyDate(segment, claim, line);
+          break;
+        case "AMT":
+          if (line && element(segment, 1) === "B6") {
+            line.allowed_amount = toAmount(element(segment, 2));
+          } else if (claim && !line) {
+            claim.amounts.push({
+              qualifier: element(segment, 1),
+              amount: toAmount(element(segment, 2)),
+            });
+          }
+          break;
+        case "SVC":
+          if (claim) {
+            line = this.startServiceLine(segment, delimiters);
+            claim.service_lines.push(line);
+          }
+          break;
+        case "LQ":
+          if (line && element(segment, 1) === "HE" && element(segment, 2)) {
+            line.remark_codes.push(element(segment, 2));
+          }
+          break;
+        case "PLB":
+          transaction.provider_adjustments.push(
+            ...this.parseProviderAdjustments(segment, delimiters)
+          );
+          break;
+        case "SE":
+          transaction = null;
+          claim = null;
+          line = null;
+          break;
+        default:
+          break;
+      }
+    }
+
+    return transactions;
+  }
+
+  private emptyTransaction(
+    controlNumber: string,
+    groupControlNumber: string | null,
+    version: string | null
+  ): EraTransaction {
+    return {
+      control_number: controlNumber,
+      functional_group_control_number: groupControlNumber,
+      version,
+      payer: { name: null, id: null, address: null },
+      payee: { name: null, npi: null, tax_id: null },
+      payment: { total_amount: null, method: null, date: null, trace_number: null },
+      provider_adjustments: [],
+      claims: [],
+    };
+  }
+
+  private startClaim(segment: X12Segment): EraClaim {
+    const statusCode = element(segment, 2);
+    return {
+      patient_control_number: element(segment, 1),
+      status_code: statusCode,
+      status_description:
+        ClaimPaymentStatusMapping[statusCode] ?? `Claim status ${statusCode}`,
+      charge_amount: toAmount(element(segment, 3)),
+      paid_amount: toAmount(element(segment, 4)),
+      patient_responsibility_amount: toAmount(element(segment, 5)),
+      payer_claim_control_number: element(segment, 7) || null,
+      patient_name: null,
+      member_id: null,
+      rendering_provider_npi: null,
+      statement_period: { start: null, end: null },
+      adjustments: [],
+      remark_codes: [],
+      amounts: [],
+      service_lines: [],
+    };
+  }
+
+  private startServiceLine(
+    segment: X12Segment,
+    delimiters: X12Delimiters
+  ): EraServiceLine {
+    const [qualifier = "", code = "", ...modifiers] = components(
+      element(segment, 1),
+      delimiters
+    );
+    return {
+      procedure_qualifier: qualifier,
+      procedure_code: code,
+      modifiers: modifiers.slice(0, 4).filter(Boolean),
+      revenue_code: element(segment, 4) || null,
+      charge_amount: toAmount(element(segment, 2)),
+      paid_amount: toAmount(element(segment, 3)),
+      allowed_amount: null,
+      units_paid: toAmount(element(segment, 5)) ?? 1,
+      service_date: null,
+      line_control_number: null,
+      adjustments: [],
+      remark_codes: [],
+    };
+  }
+
+  /** CAS carries up to six reason/amount/quantity triplets after the group code. */
+  private parseAdjustments(segment: X12Segment): EraAdjustment[] {
+    const groupCode = element(segment, 1);
+    const adjustments: EraAdjustment[] = [];
+    for (let position = 2; position <= 17; position += 3) {
+      const reasonCode = element(segment, position);
+      if (!reasonCode) {
+        continue;
+      }
+      adjustments.push({
+        group_code: groupCode,
+        reason_code: reasonCode,
+        amount: toAmount(element(segment, position + 1)),
+        quantity: toAmount(element(segment, position + 2)),
+      });
+    }
+    return adjustments;
+  }
+
+  private parseProviderAdjustments(
+    segment: X12Segment,
+    delimiters: X12Delimiters
+  ): EraTransaction["provider_adjustments"] {
+    const adjustments: EraTransaction["provider_adjustments"] = [];
+    for (let position = 3; position <= 13; position += 2) {
+      const identifier = element(segment, position);
+      if (!identifier) {
+        continue;
+      }
+      const [reasonCode = "", reference = ""] = components(identifier, delimiters);
+      adjustments.push({
+        reason_code: reasonCode,
+        reference: reference || null,
+        amount: toAmount(element(segment, position + 1)),
+      });
+    }
+    return adjustments;
+  }
+
+  private applyClaimEntity(segment: X12Segment, claim: EraClaim): void {
+    const entity = element(segment, 1);
+    if (entity === "QC") {
+      const name = [element(segment, 4), element(segment, 3)]
+        .filter(Boolean)
+        .join(" ");
+      claim.patient_name = name ? this.toTitleCase(name) : claim.patient_name;
+    }
+    if (
+      (entity === "QC" || entity === "IL") &&
+      element(segment, 8) === "MI" &&
+      element(segment, 9)
+    ) {
+      claim.member_id = claim.member_id ?? element(segment, 9);
+    }
+    if (entity === "82" && element(segment, 8) === "XX") {
+      claim.rendering_provider_npi = element(segment, 9) || null;
+    }
+  }
+
+  private applyReference(
+    segment: X12Segment,
+    transaction: EraTransaction,
+    claim: EraClaim | null,
+    line: EraServiceLine | null
+  ): void {
+    const qualifier = element(segment, 1);
+    const value = element(segment, 2);
+    if (line && qualifier === "6R") {
+      line.line_control_number = value || null;
+    } else if (!claim && qualifier === "2U") {
+      transaction.payer.id = value || transaction.payer.id;
+    } else if (!claim && qualifier === "TJ") {
+      transaction.payee.tax_id = value || transaction.payee.tax_id;
+    }
+  }
+
+  private applyDate(
+    segment: X12Segment,
+    claim: EraClaim | null,
+    line: EraServiceLine | null
+  ): void {
+    const qualifier = element(segment, 1);
+    const date = toIsoDate(element(segment, 2));
+    if (line && ["472", "150"].includes(qualifier)) {
+      line.service_date = line.service_date ?? date;
+    } else if (claim && !line && qualifier === "232") {
+      claim.statement_period.start = date;
+    } else if (claim && !line && qualifier === "233") {
+      claim.statement_period.end = date;
+    }
+  }
+
+  private sumAdjustments(
+    adjustments: EraAdjustment[],
+    includeGroup: (groupCode: string) => boolean
+  ): number {
+    const total = adjustments
+      .filter((adjustment) => includeGroup(adjustment.group_code))
+      .reduce((sum, adjustment) => sum + (adjustment.amount ?? 0), 0);
+    return Math.round(total * 100) / 100;
+  }
+
+  private toTitleCase(value: string): string {
+    return value
+      .toLowerCase()
+      .split(/\s+/)
+      .map((token) => token.charAt(0).toUpperCase() + token.slice(1))
+      .join(" ");
+  }
+}
@@ -0,0 +1,103 @@
+import icd10Data from "../data/icd10cm-codes.json" with { type: "json" };
+import { isIcd10Code, normalizeIcd10Code } from "../utils/normalization.js";
+
+export interface Icd10CodeEntry {
+  code: string;
+  description: string;
+  billable: boolean;
+}
+
+export type Icd10ValidationStatus =
+  | "billable"
+  | "non_billable_header"
+  | "malformed"
+  | "not_in_bundled_list";
+
+export interface Icd10Validation {
+  code: string;
+  input_code: string;
+  description: string | null;
+  status: Icd10ValidationStatus;
+  billable: boolean | null;
+  note: string;
+}
+
+export const ICD10_CODE_LIST_NOTE =
+  "Only a subset of ICD-10-CM is bundled. Codes outside it are reported as not_in_bundled_list, which says nothing about whether they are valid or billable; check them against the CMS ICD-10-CM order file.";
+
+/**
+ * Bundled ICD-10-CM subset. Header (category/subcategory) codes are listed with
+ * billable: false; a claim must carry one of their more specific children.
+ */
+export class Icd10CodeDictionary {
+  readonly version: string = icd10Data.version;
+  private readonly entries = new Map<string, Icd10CodeEntry>();
+
+  constructor() {
+    for (const entry of icd10Data.codes) {
+      this.entries.set(entry.code, entry);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  lookup(rawCode: string): Icd10CodeEntry | null {
+    return this.entries.get(normalizeIcd10Code(rawCode)) ?? null;
+  }
+
+  validate(rawCode: string): Icd10Validation {
+    const code = normalizeIcd10Code(rawCode);
+    const base = { code, input_code: rawCode };
+
+    if (!isIcd10Code(code)) {
+      return {
+        ...base,
+        description: null,
+        status: "malformed",
+        billable: null,
+        note: "Not a well-formed ICD-10-CM code (a letter, a digit, a letter or digit, then an optional dot and up to four more characters); likely an OCR or transcription error.",
+      };
+    }
+
+    const entry = this.entries.get(code);
+    if (entry?.billable) {
+      return {
+        ...base,
+        description: entry.description,
+        status: "billable",
+        billable: true,
+        note: "Valid billable ICD-10-CM code.",
+      };
+    }
+
+    if (entry || this.hasMoreSpecificCode(code)) {
+      return {
+        ...base,
+        description: entry?.description ?? null,
+        status: "non_billable_header",
+        billable: false,
+        note: "Header code that requires more characters to be billable; a claim billed with it is often denied as invalid or incomplete diagnosis coding.",
+      };
+    }
+
+    return {
+      ...base,
+      description: null,
+      status: "not_in_bundled_list",
+      billable: null,
+      note: `Well-formed, but not in the bundled ICD-10-CM ${this.version} subset, so its validity and billable status are unknown; verify against the CMS order file.`,
+    };
+  }
+
+  private hasMoreSpecificCode(code: string): boolean {
+    const prefix = code.includes(".") ? code : `${code}.`;
+    for (const candidate of this.entries.keys()) {
+      if (candidate !== code && candidate.startsWith(prefix)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
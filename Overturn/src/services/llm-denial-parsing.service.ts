@@ -1,90 +1,490 @@
-import Anthropic from "@anthropic-ai/sdk";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  PhiPolicyBlockedError,
+  PhiRedactor,
+  resolvePhiPolicy,
+  type KnownPhiValue,
+  type PhiPolicy,
+} from "@overturn/phi-redaction";
 
+import { GROUP_CODE_PATTERN } from "../constants/denial.js";
 import { DENIAL_PARSING_PROMPTS } from "../constants/prompts.js";
+import { dateSearchTexts, parseDateText } from "../utils/dates.js";
+import {
+  isRemarkCode,
+  moneySearchTexts,
+  normalizeIcd10Code,
+  parseMoney,
+} from "../utils/normalization.js";
+import { getErrorMessage } from "../utils/errors.js";
+import { DEFAULT_CHUNK_CHARS, chunkPages } from "../utils/pages.js";
+import {
+  documentIdFor,
+  locatedField,
+  type DenialFieldEvidence,
+} from "../utils/source-spans.js";
 import {
+  appealSubmissionMethodSchema,
   parsedDenialFieldsSchema,
+  type AppealSubmissionMethod,
+  type DenialAmounts,
   type ParsedDenialFields,
+  type ServiceLine,
 } from "../schemas/tool-schemas.js";
+import {
+  createLlmProvidersFromEnv,
+  type LlmProvider,
+} from "./llm-providers.service.js";
 
-export class LlmDenialParsingService {
-  private readonly model: string;
-  private readonly client: GoogleGenerativeAI | null;
-  private readonly claudeClient: Anthropic | null;
+type ChunkResult = { fields: ParsedDenialFields; pages: number[] };
+
+const GROUPED_CARC_REGEX = new RegExp(String.raw`^(?:${GROUP_CODE_PATTERN})-?\d{1,3}$`);
 
-  constructor() {
-    const useClaudeParser = process.env.USE_CLAUDE_PARSER === "true";
+const SUBMISSION_METHOD_SEARCH_TEXTS: Record<AppealSubmissionMethod, string[]> = {
+  mail: ["mail", "write to", "P.O. Box", "PO Box"],
+  fax: ["fax"],
+  portal: ["portal", "online", "website"],
+  phone: ["call", "phone", "telephone"],
+  other: [],
+};
 
-    this.model = process.env.GEMINI_MODEL ?? "gemini-3-flash-preview";
-    this.client = process.env.GEMINI_API_KEY
-      ? new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
-      : null;
-    this.claudeClient =
-      useClaudeParser && process.env.ANTHROPIC_API_KEY
-        ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
-        : null;
+export class LlmDenialParsingService {
+  private readonly providers: LlmProvider[];
+  private readonly chunkChars: number;
+  private readonly phiPolicy: PhiPolicy;
+
+  constructor(
+    providers = createLlmProvidersFromEnv(),
+    chunkChars = Number(process.env.LLM_CHUNK_CHARS) || DEFAULT_CHUNK_CHARS,
+    phiPolicy = resolvePhiPolicy(process.env.PHI_POLICY)
+  ) {
+    this.providers = providers;
+    this.chunkChars = chunkChars;
+    this.phiPolicy = phiPolicy;
   }
 
-  async parseFromRawText(rawText: string) {
-    if (!this.client) {
+  /**
+   * Tries each configured provider in order and returns the first response
+   * that parses. Failures of earlier providers are reported in
+   * provider_fallbacks; if every provider fails, the error lists them all.
+   * knownPhi (e.g. from the regex parse) is redacted wherever it appears.
+   */
+  async parseFromRawText(
+    rawText: string,
+    docId = documentIdFor(rawText),
+    knownPhi: KnownPhiValue[] = []
+  ) {
+    if (this.providers.length === 0) {
       throw new Error(
-        "GEMINI_API_KEY is not set. Configure it in your .env file."
+        "No LLM provider is configured. Set GEMINI_API_KEY, ANTHROPIC_API_KEY or OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL in your .env file."
       );
     }
 
-    const model = this.client.getGenerativeModel({
-      model: this.model,
-      generationConfig: {
-        temperature: 0,
-      },
-    });
-
-    const prompt = [
-      DENIAL_PARSING_PROMPTS.system,
-      "",
-      DENIAL_PARSING_PROMPTS.userTemplate(rawText),
-      "",
-      "Return JSON only.",
-    ].join("\n");
-
-    const response = await model.generateContent(prompt);
-    const textBlocks = response.response.text();
+    const failures: string[] = [];
+    for (const provider of this.providers) {
+      try {
+        const parsed = await this.parseWithProvider(provider, rawText, docId, knownPhi);
+        return {
+          ...parsed,
+          llm_provider: { name: provider.name, model: provider.model },
+          provider_fallbacks: failures,
+        };
+      } catch (error_) {
+        failures.push(
+          `${provider.name} (${provider.model}): ${getErrorMessage(error_)}`
+        );
+      }
+    }
+    throw new Error(`All LLM providers failed. ${failures.join("; ")}`);
+  }
 
-    if (!textBlocks) {
-      throw new Error("Gemini returned an empty parsing response.");
+  private async parseWithProvider(
+    provider: LlmProvider,
+    rawText: string,
+    docId: string,
+    knownPhi: KnownPhiValue[]
+  ) {
+    if (provider.external && this.phiPolicy === "block") {
+      throw new PhiPolicyBlockedError(provider.name);
     }
+    // One redactor per attempt keeps placeholders consistent across chunks and
+    // carries values learned in one chunk into the next.
+    const redactor =
+      provider.external && this.phiPolicy === "redact" ? new PhiRedactor(knownPhi) : null;
 
-    const parsedJson = this.extractJsonObject(textBlocks);
-    const normalizedFields = this.normalizeModelOutput(parsedJson);
-    const parsedFields = parsedDenialFieldsSchema.parse(normalizedFields);
+    // Long packets are parsed page group by page group so later pages (often
+    // the attached EOB) are not cut off by the model's input limit.
+    const chunks = chunkPages(rawText, this.chunkChars);
+    const chunkResults: ChunkResult[] = [];
+    for (const chunk of chunks) {
+      const chunkText = redactor ? redactor.redact(chunk.text) : chunk.text;
+      const userPrompt =
+        chunks.length === 1
+          ? DENIAL_PARSING_PROMPTS.userTemplate(chunkText)
+          : DENIAL_PARSING_PROMPTS.chunkTemplate(chunkText, {
+              index: chunk.index,
+              total: chunks.length,
+              pages: chunk.pages,
+            });
+      const textBlocks = await provider.complete({
+        system: DENIAL_PARSING_PROMPTS.system,
+        user: [userPrompt, "", "Return JSON only."].join("\n"),
+      });
 
-    return {
+      if (!textBlocks) {
+        throw new Error(
+          `${provider.name} returned an empty parsing response for pages ${chunk.pages.join(", ")}.`
+        );
+      }
+
+      const parsedJson = this.extractJsonObject(textBlocks);
+      const normalizedFields = this.normalizeModelOutput(
+        redactor ? redactor.rehydrateValue(parsedJson) : parsedJson
+      );
+      chunkResults.push({
+        fields: parsedDenialFieldsSchema.parse(normalizedFields),
+        pages: chunk.pages,
+      });
+    }
+    const { fields: parsedFields, fieldPages } = this.mergeChunkFields(chunkResults);
+    const fields = {
       ...parsedFields,
       denial_codes: Array.from(
         new Set(parsedFields.denial_codes.map((code) => code.trim()).filter(Boolean))
       ),
+      remark_codes: Array.from(
+        new Set(
+          parsedFields.remark_codes.map((code) => code.trim()).filter(Boolean)
+        )
+      ),
       cpt_codes: Array.from(
         new Set(parsedFields.cpt_codes.map((code) => code.trim()).filter(Boolean))
       ),
+      diagnosis_codes: Array.from(new Set(parsedFields.diagnosis_codes)),
+    };
+
+    return {
+      document_id: docId,
+      ...fields,
+      field_evidence: this.locateFieldEvidence(rawText, docId, fields),
+      phi_redaction: (redactor ?? new PhiRedactor()).summary(this.phiPolicy),
+      chunking: {
+        chunk_count: chunks.length,
+        chunks: chunks.map(({ index, pages, start, end }) => ({
+          index,
+          pages,
+          start,
+          end,
+        })),
+        field_pages: fieldPages,
+      },
       extraction_notes: {
         claim_id_found: parsedFields.claim_id !== "UNKNOWN",
         patient_name_found: parsedFields.patient_name !== "UNKNOWN",
         patient_address_found: parsedFields.patient_address !== "UNKNOWN",
         identifiers_found: parsedFields.identifiers.length > 0,
         denial_codes_found: parsedFields.denial_codes.length > 0,
+        remark_codes_found: parsedFields.remark_codes.length > 0,
         cpt_codes_found: parsedFields.cpt_codes.length > 0,
+        diagnosis_codes_found: parsedFields.diagnosis_codes.length > 0,
         denial_reason_found:
           parsedFields.denial_reason_text !==
           "Reason not clearly found in document.",
+        letter_date_found: parsedFields.letter_date !== "UNKNOWN",
+        appeal_window_found: parsedFields.appeal_window_days !== null,
+        amounts_found: Object.values(parsedFields.amounts).some(
+          (amount) => amount !== null
+        ),
+        service_lines_found: parsedFields.service_lines.length > 0,
+      },
+    };
+  }
+
+  /**
+   * Combines per-chunk parses. List fields are deduplicated across chunks;
+   * scalars take the value most chunks agree on, the earliest chunk winning
+   * a tie. fieldPages lists the pages whose chunks supplied each field.
+   */
+  private mergeChunkFields(results: ChunkResult[]): {
+    fields: ParsedDenialFields;
+    fieldPages: Record<string, number[]>;
+  } {
+    const fieldPages: Record<string, number[]> = {};
+    const notePages = (field: string, pages: number[]) => {
+      fieldPages[field] = Array.from(
+        new Set([...(fieldPages[field] ?? []), ...pages])
+      ).sort((a, b) => a - b);
+    };
+
+    const pickScalar = <T>(
+      field: string,
+      read: (fields: ParsedDenialFields) => T,
+      unknown: T
+    ): T => {
+      const votes = new Map<string, { value: T; count: number; pages: number[] }>();
+      for (const result of results) {
+        const value = read(result.fields);
+        if (value === unknown) {
+          continue;
+        }
+        const key = String(value).toLowerCase();
+        const vote = votes.get(key);
+        if (vote) {
+          vote.count += 1;
+          vote.pages.push(...result.pages);
+        } else {
+          votes.set(key, { value, count: 1, pages: [...result.pages] });
+        }
+      }
+      // Map iteration follows insertion order, so ties keep the earliest chunk.
+      let best: { value: T; count: number; pages: number[] } | null = null;
+      for (const vote of votes.values()) {
+        if (!best || vote.count > best.count) {
+          best = vote;
+        }
+      }
+      if (!best) {
+        return unknown;
+      }
+      notePages(field, best.pages);
+      return best.value;
+    };
+
+    const mergeList = <T>(
+      field: string,
+      read: (fields: ParsedDenialFields) => T[],
+      key: (value: T) => string
+    ): T[] => {
+      const merged = new Map<string, T>();
+      for (const result of results) {
+        const values = read(result.fields);
+        if (values.length > 0) {
+          notePages(field, result.pages);
+        }
+        for (const value of values) {
+          if (!merged.has(key(value))) {
+            merged.set(key(value), value);
+          }
+        }
+      }
+      return Array.from(merged.values());
+    };
+
+    const codeKey = (code: string) => code.toUpperCase().split(/\s+/).join("");
+    const amountKeys = Object.keys(results[0].fields.amounts) as Array<keyof DenialAmounts>;
+    const amounts = Object.fromEntries(
+      amountKeys.map((key) => [
+        key,
+        pickScalar(`amounts.${key}`, (fields) => fields.amounts[key], null),
+      ])
+    ) as DenialAmounts;
+
+    return {
+      fields: {
+        claim_id: pickScalar("claim_id", (fields) => fields.claim_id, "UNKNOWN"),
+        patient_name: pickScalar("patient_name", (fields) => fields.patient_name, "UNKNOWN"),
+        patient_address: pickScalar(
+          "patient_address",
+          (fields) => fields.patient_address,
+          "UNKNOWN"
+        ),
+        identifiers: mergeList(
+          "identifiers",
+          (fields) => fields.identifiers,
+          (identifier) => `${identifier.label}:${identifier.value.toUpperCase()}`
+        ),
+        denial_codes: mergeList("denial_codes", (fields) => fields.denial_codes, codeKey),
+        remark_codes: mergeList("remark_codes", (fields) => fields.remark_codes, codeKey),
+        cpt_codes: mergeList("cpt_codes", (fields) => fields.cpt_codes, codeKey),
+        diagnosis_codes: mergeList(
+          "diagnosis_codes",
+          (fields) => fields.diagnosis_codes,
+          codeKey
+        ),
+        policy_references: mergeList(
+          "policy_references",
+          (fields) => fields.policy_references,
+          (reference) => reference.toLowerCase()
+        ),
+        denial_reason_text: pickScalar(
+          "denial_reason_text",
+          (fields) => fields.denial_reason_text,
+          "Reason not clearly found in document."
+        ),
+        letter_date: pickScalar("letter_date", (fields) => fields.letter_date, "UNKNOWN"),
+        appeal_window_days: pickScalar(
+          "appeal_window_days",
+          (fields) => fields.appeal_window_days,
+          null
+        ),
+        appeal_submission_methods: mergeList(
+          "appeal_submission_methods",
+          (fields) => fields.appeal_submission_methods,
+          (method) => method
+        ),
+        appeals_address: pickScalar(
+          "appeals_address",
+          (fields) => fields.appeals_address,
+          "UNKNOWN"
+        ),
+        appeals_fax: pickScalar("appeals_fax", (fields) => fields.appeals_fax, "UNKNOWN"),
+        payer_name: pickScalar("payer_name", (fields) => fields.payer_name, "UNKNOWN"),
+        provider_name: pickScalar(
+          "provider_name",
+          (fields) => fields.provider_name,
+          "UNKNOWN"
+        ),
+        amounts,
+        service_lines: mergeList(
+          "service_lines",
+          (fields) => fields.service_lines,
+          (line) =>
+            [
+              line.procedure_code,
+              line.modifiers.join("-"),
+              line.service_date,
+              line.amounts.billed,
+            ].join("|")
+        ).map((line, index) => ({ ...line, line_number: index + 1 })),
       },
+      fieldPages,
     };
   }
 
+  /**
+   * The model returns values without offsets, so spans are recovered by
+   * searching the source text. Values that cannot be found keep a reduced
+   * confidence rather than being dropped.
+   */
+  private locateFieldEvidence(
+    rawText: string,
+    docId: string,
+    fields: ParsedDenialFields
+  ): DenialFieldEvidence {
+    const scalar = (label: string, value: string, fallback = "UNKNOWN") => {
+      const known = value === fallback ? null : value;
+      const firstSentence = value.split(/(?<=[.!?])\s/)[0] ?? value;
+      return locatedField(rawText, docId, label, known, [value, firstSentence], 0.8);
+    };
+    const amount = (key: keyof DenialAmounts) => {
+      const value = fields.amounts[key];
+      return locatedField(
+        rawText,
+        docId,
+        `amount:${key}`,
+        value,
+        value === null ? [] : moneySearchTexts(value),
+        0.75
+      );
+    };
+    const codes = (label: string, values: string[]) =>
+      values.map((value) =>
+        locatedField(rawText, docId, `${label}:${value}`, value, this.codeSearchTexts(value), 0.8)
+      );
+
+    return {
+      claim_id: scalar("claim_id", fields.claim_id),
+      patient_name: scalar("patient_name", fields.patient_name),
+      patient_address: scalar("patient_address", fields.patient_address),
+      identifiers: fields.identifiers.map((identifier) =>
+        locatedField(
+          rawText,
+          docId,
+          `identifier:${identifier.label}`,
+          identifier,
+          [identifier.value],
+          0.8
+        )
+      ),
+      denial_codes: codes("denial_code", fields.denial_codes),
+      remark_codes: codes("remark_code", fields.remark_codes),
+      cpt_codes: codes("cpt_code", fields.cpt_codes),
+      diagnosis_codes: fields.diagnosis_codes.map((code) =>
+        locatedField(
+          rawText,
+          docId,
+          `diagnosis_code:${code}`,
+          code,
+          [code, code.replace(".", "")],
+          0.8
+        )
+      ),
+      policy_references: fields.policy_references.map((reference) =>
+        locatedField(rawText, docId, "policy_reference", reference, [reference], 0.7)
+      ),
+      denial_reason_text: scalar(
+        "denial_reason_text",
+        fields.denial_reason_text,
+        "Reason not clearly found in document."
+      ),
+      letter_date: locatedField(
+        rawText,
+        docId,
+        "letter_date",
+        fields.letter_date === "UNKNOWN" ? null : fields.letter_date,
+        dateSearchTexts(fields.letter_date),
+        0.8
+      ),
+      appeal_window_days: locatedField(
+        rawText,
+        docId,
+        "appeal_window_days",
+        fields.appeal_window_days,
+        [
+          `${fields.appeal_window_days} calendar days`,
+          `${fields.appeal_window_days} days`,
+          `${(fields.appeal_window_days ?? 0) / 30} months`,
+        ],
+        0.8
+      ),
+      appeal_submission_methods: fields.appeal_submission_methods.map((method) =>
+        locatedField(
+          rawText,
+          docId,
+          `appeal_submission_method:${method}`,
+          method,
+          SUBMISSION_METHOD_SEARCH_TEXTS[method],
+          0.7
+        )
+      ),
+      appeals_address: scalar("appeals_address", fields.appeals_address),
+      appeals_fax: scalar("appeals_fax", fields.appeals_fax),
+      payer_name: scalar("payer_name", fields.payer_name),
+      provider_name: scalar("provider_name", fields.provider_name),
+      amounts: {
+        billed: amount("billed"),
+        allowed: amount("allowed"),
+        paid: amount("paid"),
+        adjustments: amount("adjustments"),
+        patient_responsibility: amount("patient_responsibility"),
+      },
+      service_lines: fields.service_lines.map((line) =>
+        locatedField(
+          rawText,
+          docId,
+          `service_line:${line.line_number}`,
+          line,
+          [line.procedure_code],
+          0.7
+        )
+      ),
+    };
+  }
+
+  /** "CO-45" may appear as "CO 45", "CO45" or just "45" in the letter. */
+  private codeSearchTexts(code: string): string[] {
+    const match = /^([A-Z]{2})\s*-?\s*(\d{1,3})$/i.exec(code);
+    if (!match) {
+      return [code];
+    }
+    const [, group, reason] = match;
+    return [code, `${group} ${reason}`, `${group}${reason}`, reason];
+  }
+
   private extractJsonObject(textContent: string): unknown {
     const firstBrace = textContent.indexOf("{");
     const lastBrace = textContent.lastIndexOf("}");
     if (firstBrace === -1 || lastBrace === -1 || lastBrace < firstBrace) {
-      throw new Error("Gemini response did not contain a valid JSON object.");
+      throw new Error("LLM response did not contain a valid JSON object.");
     }
     const candidate = textContent.slice(firstBrace, lastBrace + 1);
     return JSON.parse(candidate);
@@ -94,9 +494,8 @@ export class LlmDenialParsingService {
     const input = this.ensureRecord(raw);
 
     const normalizedIdentifiers = this.normalizeIdentifiers(input.identifiers);
-    const { denialCodes, policyReferencesFromCodes } = this.normalizeDenialCodes(
-      input.denial_codes
-    );
+    const { denialCodes, remarkCodesFromCodes, policyReferencesFromCodes } =
+      this.normalizeDenialCodes(input.denial_codes);
     const explicitPolicyReferences = this.normalizeStringArray(
       input.policy_references
     );
@@ -107,7 +506,14 @@ export class LlmDenialParsingService {
       patient_address: this.toKnownString(input.patient_address),
       identifiers: normalizedIdentifiers,
       denial_codes: denialCodes,
+      remark_codes: Array.from(
+        new Set([
+          ...this.normalizeRemarkCodes(input.remark_codes),
+          ...remarkCodesFromCodes,
+        ])
+      ),
       cpt_codes: this.normalizeCptCodes(input.cpt_codes),
+      diagnosis_codes: this.normalizeDiagnosisCodes(input.diagnosis_codes),
       policy_references: Array.from(
         new Set([...explicitPolicyReferences, ...policyReferencesFromCodes])
       ),
@@ -115,9 +521,76 @@ export class LlmDenialParsingService {
         input.denial_reason_text,
         "Reason not clearly found in document."
       ),
+      letter_date: parseDateText(this.toKnownString(input.letter_date)) ?? "UNKNOWN",
+      appeal_window_days: this.toPositiveInteger(input.appeal_window_days),
+      appeal_submission_methods: Array.from(
+        new Set(
+          this.normalizeStringArray(input.appeal_submission_methods)
+            .map((method) => appealSubmissionMethodSchema.safeParse(method.toLowerCase()))
+            .flatMap((result) => (result.success ? [result.data] : []))
+        )
+      ),
+      appeals_address: this.toKnownString(input.appeals_address),
+      appeals_fax: this.toKnownString(input.appeals_fax),
+      payer_name: this.toKnownString(input.payer_name),
+      provider_name: this.toKnownString(input.provider_name),
+      amounts: this.normalizeAmounts(input.amounts),
+      service_lines: this.normalizeServiceLines(input.service_lines),
     };
   }
 
+  private normalizeServiceLines(value: unknown): ServiceLine[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value
+      .map((item) => this.ensureRecord(item))
+      .map((line) => ({
+        procedure: this.normalizeCptCodes(line.procedure_code)[0],
+        line,
+      }))
+      .filter((entry): entry is { procedure: string; line: Record<string, unknown> } =>
+        Boolean(entry.procedure)
+      )
+      .map(({ procedure, line }, index) => {
+        const { denialCodes, remarkCodesFromCodes } = this.normalizeDenialCodes(
+          line.denial_codes
+        );
+        const serviceDate = parseDateText(this.toKnownString(line.service_date));
+        return {
+          line_number: index + 1,
+          procedure_code: procedure,
+          modifiers: this.normalizeStringArray(line.modifiers).map((modifier) =>
+            modifier.toUpperCase()
+          ),
+          units: this.toPositiveInteger(line.units),
+          service_date: serviceDate,
+          amounts: this.normalizeAmounts(line.amounts),
+          denial_codes: denialCodes,
+          remark_codes: Array.from(
+            new Set([...this.normalizeRemarkCodes(line.remark_codes), ...remarkCodesFromCodes])
+          ),
+        };
+      });
+  }
+
+  private normalizeAmounts(value: unknown): DenialAmounts {
+    const record = this.ensureRecord(value);
+    return {
+      billed: parseMoney(record.billed),
+      allowed: parseMoney(record.allowed),
+      paid: parseMoney(record.paid),
+      adjustments: parseMoney(record.adjustments),
+      patient_responsibility: parseMoney(record.patient_responsibility),
+    };
+  }
+
+  private toPositiveInteger(value: unknown): number | null {
+    const parsed =
+      typeof value === "number" ? value : Number.parseInt(String(value ?? ""), 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+  }
+
   private ensureRecord(value: unknown): Record<string, unknown> {
     if (value && typeof value === "object" && !Array.isArray(value)) {
       return value as Record<string, unknown>;
@@ -135,15 +608,19 @@ export class LlmDenialParsingService {
 
   private normalizeDenialCodes(value: unknown): {
     denialCodes: string[];
+    remarkCodesFromCodes: string[];
     policyReferencesFromCodes: string[];
   } {
     const rawValues = this.normalizeStringArray(value);
     const denialCodes: string[] = [];
+    const remarkCodesFromCodes: string[] = [];
     const policyReferencesFromCodes: string[] = [];
 
     for (const entry of rawValues) {
       if (this.isCarcLikeCode(entry)) {
         denialCodes.push(entry);
+      } else if (isRemarkCode(entry)) {
+        remarkCodesFromCodes.push(entry.toUpperCase());
       } else {
         policyReferencesFromCodes.push(entry);
       }
@@ -151,6 +628,7 @@ export class LlmDenialParsingService {
 
     return {
       denialCodes: Array.from(new Set(denialCodes)),
+      remarkCodesFromCodes: Array.from(new Set(remarkCodesFromCodes)),
       policyReferencesFromCodes: Array.from(new Set(policyReferencesFromCodes)),
     };
   }
@@ -172,6 +650,12 @@ export class LlmDenialParsingService {
     return [];
   }
 
+  private normalizeRemarkCodes(value: unknown): string[] {
+    return this.normalizeStringArray(value)
+      .map((entry) => entry.toUpperCase().split(/\s+/).join(""))
+      .filter((entry) => isRemarkCode(entry));
+  }
+
   private normalizeCptCodes(value: unknown): string[] {
     const rawValues = this.normalizeStringArray(value);
     const extracted = new Set<string>();
@@ -184,9 +668,23 @@ export class LlmDenialParsingService {
     return Array.from(extracted);
   }
 
+  /** Keeps code-shaped tokens even when malformed, so validation can flag them. */
+  private normalizeDiagnosisCodes(value: unknown): string[] {
+    const extracted = new Set<string>();
+    for (const entry of this.normalizeStringArray(value)) {
+      for (const token of entry.split(/[,;\s]+/)) {
+        const code = normalizeIcd10Code(token);
+        if (/^[A-Z][0-9A-Z]{2}(?:\.[0-9A-Z]{1,5})?$/.test(code) && /\d/.test(code)) {
+          extracted.add(code);
+        }
+      }
+    }
+    return Array.from(extracted);
+  }
+
   private isCarcLikeCode(code: string): boolean {
     const cleaned = code.toUpperCase().split(/\s+/).join("");
-    if (/^(CO|PR|OA|PI)-?\d{1,3}$/.test(cleaned)) {
+    if (GROUPED_CARC_REGEX.test(cleaned)) {
       return true;
     }
     if (/^\d{1,3}$/.test(cleaned)) {
@@ -0,0 +1,234 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+export type LlmProviderName = "gemini" | "anthropic" | "openai_compatible" | "mock";
+
+export interface LlmCompletionRequest {
+  system: string;
+  user: string;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  /** Whether requests leave this machine; PHI_POLICY applies only to external providers. */
+  readonly external: boolean;
+  complete(request: LlmCompletionRequest): Promise<string>;
+}
+
+const DEFAULT_PROVIDER_ORDER: LlmProviderName[] = [
+  "gemini",
+  "anthropic",
+  "openai_compatible",
+];
+
+const MAX_OUTPUT_TOKENS = 8192;
+
+const DEFAULT_OPENAI_COMPATIBLE_TIMEOUT_MS = 120_000;
+
+const LOCAL_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]", "::1"]);
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = "gemini" as const;
+  readonly model: string;
+  readonly external = true;
+  private readonly client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, model: string) {
+    this.model = model;
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: 0,
+      },
+    });
+    const response = await model.generateContent(
+      [request.system, "", request.user].join("\n")
+    );
+    return response.response.text();
+  }
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = "anthropic" as const;
+  readonly model: string;
+  readonly external = true;
+  private readonly client: Anthropic;
+
+  constructor(apiKey: string, model: string) {
+    this.model = model;
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: 0,
+      system: request.system,
+      messages: [{ role: "user", content: request.user }],
+    });
+    return response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+  }
+}
+
+/** Any server exposing POST {baseUrl}/chat/completions, e.g. a local vLLM, Ollama or LM Studio instance. */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = "openai_compatible" as const;
+  readonly model: string;
+  readonly external: boolean;
+  private readonly baseUrl: string;
+  private readonly apiKey: string | null;
+  private readonly timeoutMs: number;
+
+  constructor(
+    baseUrl: string,
+    model: string,
+    apiKey: string | null = null,
+    timeoutMs = DEFAULT_OPENAI_COMPATIBLE_TIMEOUT_MS
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.model = model;
+    this.apiKey = apiKey;
+    this.timeoutMs = timeoutMs;
+    this.external = !LOCAL_HOSTNAMES.has(new URL(this.baseUrl).hostname);
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    try {
+      return await this.request(request);
+    } catch (err) {
+      // A hung server counts as a provider failure so the next provider is tried.
+      if (err instanceof DOMException && err.name === "TimeoutError") {
+        throw new Error(
+          `OpenAI-compatible endpoint did not respond within ${this.timeoutMs} ms`
+        );
+      }
+      throw err;
+    }
+  }
+
+  private async request(request: LlmCompletionRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      signal: AbortSignal.timeout(this.timeoutMs),
+      headers: {
+        "content-type": "application/json",
+        ...(this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user },
+        ],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `OpenAI-compatible endpoint returned HTTP ${response.status} ${response.statusText}`.trim()
+      );
+    }
+    const body = (await response.json()) as {
+      choices?: Array<{ message?: { content?: string | null } }>;
+    };
+    return body.choices?.[0]?.message?.content ?? "";
+  }
+}
+
+/**
+ * Returns a fixed response and records every request, so parsing can be
+ * exercised without network access or API keys.
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly name = "mock" as const;
+  readonly model = "mock";
+  /** Set to true to exercise PHI_POLICY handling for external providers. */
+  readonly external: boolean;
+  readonly requests: LlmCompletionRequest[] = [];
+  private readonly response: string | ((request: LlmCompletionRequest) => string);
+
+  constructor(
+    response: string | ((request: LlmCompletionRequest) => string) = "{}",
+    external = false
+  ) {
+    this.response = response;
+    this.external = external;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    this.requests.push(request);
+    return typeof this.response === "function" ? this.response(request) : this.response;
+  }
+}
+
+const createProvider = (name: string, env: NodeJS.ProcessEnv): LlmProvider | null => {
+  switch (name) {
+    case "gemini":
+      return env.GEMINI_API_KEY
+        ? new GeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL ?? "gemini-3-flash-preview")
+        : null;
+    case "anthropic":
+      return env.ANTHROPIC_API_KEY
+        ? new AnthropicProvider(
+            env.ANTHROPIC_API_KEY,
+            env.ANTHROPIC_MODEL ?? "claude-haiku-4-5"
+          )
+        : null;
+    case "openai_compatible":
+      if (env.OPENAI_COMPATIBLE_BASE_URL && !URL.canParse(env.OPENAI_COMPATIBLE_BASE_URL)) {
+        process.stderr.write(
+          `[llm-providers] Skipping openai_compatible: OPENAI_COMPATIBLE_BASE_URL "${env.OPENAI_COMPATIBLE_BASE_URL}" is not a valid URL (e.g. http://localhost:11434/v1).\n`
+        );
+        return null;
+      }
+      return env.OPENAI_COMPATIBLE_BASE_URL && env.OPENAI_COMPATIBLE_MODEL
+        ? new OpenAiCompatibleProvider(
+            env.OPENAI_COMPATIBLE_BASE_URL,
+            env.OPENAI_COMPATIBLE_MODEL,
+            env.OPENAI_COMPATIBLE_API_KEY ?? null,
+            Number(env.OPENAI_COMPATIBLE_TIMEOUT_MS) || undefined
+          )
+        : null;
+    case "mock":
+      return new MockLlmProvider(env.LLM_MOCK_RESPONSE ?? "{}");
+    default:
+      process.stderr.write(
+        `[llm-providers] Ignoring unknown LLM provider "${name}" in LLM_PROVIDERS. Use gemini, anthropic, openai_compatible or mock.\n`
+      );
+      return null;
+  }
+};
+
+/**
+ * Builds the providers named in LLM_PROVIDERS (comma-separated, in fallback
+ * order), skipping any that are not configured. Without LLM_PROVIDERS the
+ * order is gemini, anthropic, openai_compatible, or anthropic first when the
+ * legacy USE_CLAUDE_PARSER=true is set.
+ */
+export const createLlmProvidersFromEnv = (
+  env: NodeJS.ProcessEnv = process.env
+): LlmProvider[] => {
+  const order = env.LLM_PROVIDERS
+    ? env.LLM_PROVIDERS.split(",").map((name) => name.trim().toLowerCase())
+    : env.USE_CLAUDE_PARSER === "true"
+      ? ["anthropic", ...DEFAULT_PROVIDER_ORDER.filter((name) => name !== "anthropic")]
+      : DEFAULT_PROVIDER_ORDER;
+
+  const providers: LlmProvider[] = [];
+  for (const name of new Set(order)) {
+    const provider = createProvider(name, env);
+    if (provider) {
+      providers.push(provider);
+    }
+  }
+  return providers;
+};
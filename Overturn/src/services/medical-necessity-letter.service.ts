@@ -0,0 +1,92 @@
+import type { z } from "zod";
+
+import { generateMedicalNecessityLetterSchema } from "../schemas/tool-schemas.js";
+import { Icd10CodeDictionary } from "./icd10-code-dictionary.service.js";
+
+export type MedicalNecessityLetterInput = z.infer<
+  typeof generateMedicalNecessityLetterSchema
+>;
+
+/** Drafts a Letter of Medical Necessity for the treating physician to review and sign. */
+export class MedicalNecessityLetterService {
+  private readonly icd10CodeDictionary: Icd10CodeDictionary;
+
+  constructor(icd10CodeDictionary = new Icd10CodeDictionary()) {
+    this.icd10CodeDictionary = icd10CodeDictionary;
+  }
+
+  generateLetter(input: MedicalNecessityLetterInput): string {
+    const today = new Date().toISOString().slice(0, 10);
+    const patient = input.patient_name ?? "[Patient Name]";
+    const service = input.requested_service ?? "the requested service";
+    const procedures = input.procedure_codes.join(", ");
+    const physician = input.physician;
+    const physicianName = physician
+      ? [physician.name, physician.credentials].filter(Boolean).join(", ")
+      : "[Physician Name, Credentials]";
+
+    const diagnoses = input.diagnosis_codes.map((rawCode) => {
+      const validation = this.icd10CodeDictionary.validate(rawCode);
+      return validation.description
+        ? `- ${validation.code}: ${validation.description}`
+        : `- ${validation.code}`;
+    });
+
+    const therapies =
+      input.failed_conservative_therapies.length > 0
+        ? input.failed_conservative_therapies.map(({ therapy, duration, outcome }) =>
+            [
+              `- **${therapy}**`,
+              duration ? ` for ${duration}` : "",
+              outcome ? `: ${outcome}` : "",
+            ].join("")
+          )
+        : ["[List conservative therapies tried, their duration and why they failed or were contraindicated.]"];
+
+    return [
+      "# Letter of Medical Necessity",
+      "",
+      `**Date:** ${today}`,
+      `**Patient:** ${patient}`,
+      ...(input.patient_date_of_birth
+        ? [`**Date of Birth:** ${input.patient_date_of_birth}`]
+        : []),
+      ...(input.member_id ? [`**Member ID:** ${input.member_id}`] : []),
+      ...(input.original_claim_id ? [`**Claim ID:** ${input.original_claim_id}`] : []),
+      `**Requested Service:** ${input.requested_service ? `${input.requested_service} (${procedures})` : procedures}`,
+      "",
+      `To: ${input.payer_name ? `${input.payer_name} ` : ""}Medical Director / Utilization Review`,
+      "",
+      `## Re: Medical Necessity of ${service} for ${patient}`,
+      "",
+      `I am the treating physician for ${patient}${physician?.specialty ? `, whom I see in my ${physician.specialty} practice` : ""}. I am writing to document that ${service} (${procedures}) is medically necessary for this patient and to request that it be covered.`,
+      "",
+      "### Diagnoses",
+      ...diagnoses,
+      "",
+      "### Treatment History",
+      input.treatment_history,
+      "",
+      "### Conservative Therapies Tried",
+      ...therapies,
+      "",
+      "### Current Functional Status",
+      input.functional_status,
+      "",
+      "### Medical Necessity",
+      ...(input.clinical_rationale ? [input.clinical_rationale, ""] : []),
+      `${input.failed_conservative_therapies.length > 0 ? `Conservative management has not restored adequate function, and ${patient}'s limitations persist despite appropriate treatment. ` : ""}In my clinical judgment, ${service} is reasonable and necessary for the diagnoses above, is consistent with generally accepted standards of medical practice, and is not for the convenience of the patient or provider. Delaying or denying it is expected to prolong the patient's impairment.`,
+      "",
+      "### Attestation",
+      "I have personally examined this patient, and the information in this letter is accurate and supported by the enclosed medical records. I am available for a peer-to-peer discussion if needed.",
+      "",
+      "Sincerely,",
+      "",
+      physicianName,
+      ...(physician?.specialty ? [physician.specialty] : []),
+      physician?.npi ? `NPI: ${physician.npi}` : "NPI: [NPI]",
+      physician?.practice_name ?? "[Practice Name]",
+      ...(physician?.phone ? [physician.phone] : []),
+    ].join("\n");
+  }
+}
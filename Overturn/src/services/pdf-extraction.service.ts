@@ -1,15 +1,36 @@
-import fs from "node:fs/promises";
-import path from "node:path";
-
+import { ocrPdf, pagesNeedingOcr, type OcrPage } from "@overturn/ocr";
 import { PDFParse } from "pdf-parse";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api.js";
 
 import { getErrorMessage } from "../utils/errors.js";
+import { buildTextBlocks, type LayoutItem, type PageLayout } from "../utils/layout.js";
+import { joinPageTexts, splitPages } from "../utils/pages.js";
+
+export interface OcrPageSummary {
+  page_number: number;
+  confidence: number;
+  word_count: number;
+}
+
+export interface OcrMetadata {
+  applied: boolean;
+  engine: "tesseract.js" | null;
+  pages_without_text: number[];
+  pages: OcrPageSummary[];
+  mean_confidence: number | null;
+  error?: string;
+}
 
 export class PdfExtractionService {
-  async extractClaimData(filePath: string) {
-    const resolvedPath = path.resolve(filePath);
-    const fileBuffer = await fs.readFile(resolvedPath);
-    const parser = new PDFParse({ data: fileBuffer });
+  private readonly ocrEnabled: boolean;
+
+  constructor(ocrEnabled = process.env.OCR_ENABLED !== "false") {
+    this.ocrEnabled = ocrEnabled;
+  }
+
+  async extractFromBuffer(fileBuffer: Buffer) {
+    const parser = new PDFParse({ data: new Uint8Array(fileBuffer) });
     try {
       const textResult = await parser.getText();
       let info: Record<string, unknown> = {};
@@ -24,18 +45,130 @@ export class PdfExtractionService {
         infoParseError = getErrorMessage(err);
       }
 
+      const total = textResult.total ?? 0;
+      const pageTexts = textResult.pages.map((page) => page.text);
+      const ocr = await this.recognizeScannedPages(fileBuffer, pageTexts);
+      const rawText = ocr.applied
+        ? joinPageTexts(pageTexts, total)
+        : (textResult.text ?? "").trim();
+
       return {
-        file_path: resolvedPath,
-        raw_text: (textResult.text ?? "").trim(),
+        raw_text: rawText,
+        pages: await this.readPageLayouts(fileBuffer, rawText, ocr.pages),
         metadata: {
-          pages: textResult.total ?? 0,
+          pages: total,
           info,
           fingerprints,
           info_parse_error: infoParseError,
+          ocr: ocr.metadata,
         },
       };
     } finally {
       await parser.destroy();
     }
   }
+
+  /** Runs OCR on pages without a usable text layer and writes the result into pageTexts. */
+  private async recognizeScannedPages(
+    fileBuffer: Buffer,
+    pageTexts: string[]
+  ): Promise<{ applied: boolean; pages: OcrPage[]; metadata: OcrMetadata }> {
+    const pagesWithoutText = pagesNeedingOcr(pageTexts);
+    const metadata: OcrMetadata = {
+      applied: false,
+      engine: null,
+      pages_without_text: pagesWithoutText,
+      pages: [],
+      mean_confidence: null,
+    };
+    if (!this.ocrEnabled || pagesWithoutText.length === 0) {
+      return { applied: false, pages: [], metadata };
+    }
+
+    try {
+      const result = await ocrPdf(fileBuffer, { pages: pagesWithoutText });
+      const pages = result.pages.filter(
+        (page) => page.text.length > pageTexts[page.page_number - 1].trim().length
+      );
+      for (const page of pages) {
+        pageTexts[page.page_number - 1] = page.text;
+      }
+      const applied = pages.length > 0;
+      return {
+        applied,
+        pages,
+        metadata: {
+          ...metadata,
+          applied,
+          engine: result.engine,
+          pages: result.pages.map(({ page_number, confidence, word_count }) => ({
+            page_number,
+            confidence,
+            word_count,
+          })),
+          mean_confidence: result.mean_confidence,
+        },
+      };
+    } catch (err) {
+      return {
+        applied: false,
+        pages: [],
+        metadata: { ...metadata, error: getErrorMessage(err) },
+      };
+    }
+  }
+
+  /** Positioned text blocks per page, from the text layer or from OCR words for scanned pages. */
+  private async readPageLayouts(
+    fileBuffer: Buffer,
+    rawText: string,
+    ocrPages: OcrPage[]
+  ): Promise<PageLayout[]> {
+    const textRanges = new Map(
+      splitPages(rawText).map((page) => [page.page_number, page])
+    );
+    const document = await getDocument({ data: new Uint8Array(fileBuffer) }).promise;
+    try {
+      const layouts: PageLayout[] = [];
+      for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+        const range = textRanges.get(pageNumber);
+        const ocrPage = ocrPages.find((page) => page.page_number === pageNumber);
+        const page = await document.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: 1 });
+        let items: LayoutItem[];
+        if (ocrPage) {
+          items = ocrPage.words.map(({ text, bbox }) => ({ text, bbox }));
+        } else {
+          const content = await page.getTextContent();
+          items = content.items
+            .filter((item): item is TextItem => "str" in item)
+            .map((item) => {
+              const [x, baseline] = viewport.convertToViewportPoint(
+                item.transform[4],
+                item.transform[5]
+              );
+              return {
+                text: item.str,
+                bbox: { x, y: baseline - item.height, width: item.width, height: item.height },
+              };
+            });
+        }
+        page.cleanup();
+
+        layouts.push({
+          page_number: pageNumber,
+          width: Math.round(viewport.width * 10) / 10,
+          height: Math.round(viewport.height * 10) / 10,
+          unit: "pt",
+          source: ocrPage ? "ocr" : "text_layer",
+          raw_text_start: range?.start ?? 0,
+          raw_text_end: range?.end ?? 0,
+          blocks: buildTextBlocks(items),
+        });
+      }
+      return layouts;
+    } finally {
+      await document.destroy();
+    }
+  }
 }
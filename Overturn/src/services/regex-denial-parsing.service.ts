@@ -1,155 +1,982 @@
-import { DenialMapping } from "../constants/denial.js";
+import { GROUP_CODE_PATTERN, STANDALONE_CARC_CODES } from "../constants/denial.js";
+import type {
+  AppealSubmissionMethod,
+  DenialAmounts,
+  ServiceLine,
+} from "../schemas/tool-schemas.js";
+import {
+  DATE_TEXT_PATTERN,
+  addMonths,
+  daysBetween,
+  parseDateText,
+} from "../utils/dates.js";
+import { normalizeIcd10Code, parseMoney } from "../utils/normalization.js";
+import {
+  documentIdFor,
+  extractedField,
+  spanAt,
+  type DenialFieldEvidence,
+  type ExtractedField,
+} from "../utils/source-spans.js";
+
+type TextMatch = { value: string; start: number; end: number };
+
+const MAX_SPANS_PER_VALUE = 5;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  six: 6,
+  twelve: 12,
+  fifteen: 15,
+  thirty: 30,
+  "forty-five": 45,
+  sixty: 60,
+  ninety: 90,
+  "one hundred twenty": 120,
+  "one hundred eighty": 180,
+  "three hundred sixty-five": 365,
+};
+
+const APPEAL_CONTEXT_REGEX = /appeal|reconsideration|redetermination|grievance/i;
+const PHONE_PATTERN = String.raw`\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}`;
+const MONEY_PATTERN = String.raw`\(?-?\$?\s?\d{1,3}(?:,\d{3})*(?:\.\d{2})\)?|\(?-?\$?\s?\d+\.\d{2}\)?`;
+
+const AMOUNT_LABELS: Record<keyof DenialAmounts, string> = {
+  billed: String.raw`billed(?:\s+amount)?|amount\s+billed|submitted\s+charges?|charges?|charged`,
+  allowed: String.raw`(?:allowed|allowable)(?:\s+amount)?|amount\s+allowed`,
+  paid: String.raw`(?:plan|insurance|amount)\s+paid|paid(?:\s+amount)?|payment\s+amount|net\s+payment`,
+  adjustments: String.raw`(?:contractual\s+)?adjustments?(?:\s+amount)?|write-?offs?|disallowed(?:\s+amount)?|not\s+covered(?:\s+amount)?`,
+  patient_responsibility: String.raw`patient\s+(?:responsibility|balance|owes|portion)|member\s+(?:responsibility|owes)|(?:amount\s+)?you\s+(?:may\s+)?owe`,
+};
+
+const AMOUNT_COLUMN_REGEX =
+  /\b(?:billed|charges?|submitted|allowed|allowable|adjust\w*|disallowed|not\s+covered|write-?offs?|(?:plan\s+|amount\s+)?paid|payment|patient\s+resp\w*|you\s+owe|member\s+resp\w*|deductible|co-?pay\w*|co-?ins\w*)\b/gi;
+const PROCEDURE_CODE_REGEX = /\b(?:[A-Z]\d{4}|\d{5})\b/g;
+// "CO-45", "CO 45" and "CO45" alike, in running text and on service lines.
+const DENIAL_CODE_REGEX = new RegExp(
+  String.raw`\b(?:${GROUP_CODE_PATTERN})\s*-?\s*\d{1,3}\b`,
+  "gi"
+);
+const GROUP_CODE_REGEX = new RegExp(String.raw`^(?:${GROUP_CODE_PATTERN})$`);
+// A trailing ".digit" means an ICD-10 code such as M54.50, not a remark code.
+const LINE_REMARK_CODE_REGEX = /\b(?:MA\d{2,3}|M\d{1,3}|N\d{1,3})\b(?!\.[0-9A-Z])/g;
+// Text before a code that puts it in a diagnosis list ("Dx: E11.9, M54"), where
+// undotted ICD-10 categories such as M54 or N18 look like remark codes.
+const DIAGNOSIS_LIST_PREFIX_REGEX =
+  /\b(?:icd-?10(?:-cm)?|diagnos[ie]s|diag|dx)(?:\s*codes?)?\s*[:#-]?\s*(?:[A-Z][0-9A-Z]{2}(?:\.?[0-9A-Z]{1,5})?[,;\s]+)*$/i;
+// Two-digit CPT modifiers, accepted space-separated after a procedure code ("99213 25").
+const NUMERIC_MODIFIERS = new Set([
+  "22", "23", "24", "25", "26", "27", "32", "33", "47", "50", "51", "52", "53",
+  "54", "55", "56", "57", "58", "59", "62", "63", "66", "76", "77", "78", "79",
+  "80", "81", "82", "90", "91", "92", "93", "95", "96", "97", "99",
+]);
+
+const ZIP_LINE_REGEX = /\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/i;
+
+/** "co 45" -> "CO-45". */
+const formatGroupedCode = (code: string): string =>
+  code.toUpperCase().split(/\s+/).join("").replace(/^([A-Z]{2})-?(\d)/, "$1-$2");
 
 export class RegexDenialParsingService {
   private readonly claimPatterns = [
-    /(?:claim\s*(?:id|number|no\.?|#)\s*[:#-]?\s*)([A-Z0-9-]{5,})/i,
-    /(?:control\s*number\s*[:#-]?\s*)([A-Z0-9-]{5,})/i,
+    {
+      pattern: /(?:claim\s*(?:id|number|no\.?|#)\s*[:#-]?\s*)([A-Z0-9-]{5,})/i,
+      confidence: 0.9,
+    },
+    {
+      pattern: /(?:control\s*number\s*[:#-]?\s*)([A-Z0-9-]{5,})/i,
+      confidence: 0.75,
+    },
+  ];
+
+  private readonly patientNamePatterns = [
+    {
+      pattern:
+        /(?:patient\s*name|member\s*name|subscriber\s*name)\s*[:#-]?\s*([A-Z][A-Z ,.'-]{3,})/i,
+      confidence: 0.85,
+    },
+    { pattern: /(?:name)\s*[:#-]?\s*([A-Z][A-Z ,.'-]{3,})/i, confidence: 0.5 },
   ];
 
+  // Labelled lines only; "Payer ID:" and "Rendering Provider NPI:" are identifiers, not names.
+  private readonly payerNamePattern =
+    /^[ \t]*(?:payer|insurance\s*(?:company|carrier)|health\s*plan|insurer|carrier)(?:\s*name)?\s*:[ \t]*([^\n]{2,80})$/im;
+
+  private readonly providerNamePattern =
+    /^[ \t]*(?:(?:rendering|billing|treating|attending)\s*)?(?:provider|physician)(?:\s*name)?\s*:[ \t]*([^\n]{2,80})$/im;
+
   private readonly denialReasonPattern =
     /(?:denial\s*reason|reason\s*for\s*denial|explanation(?:\s*of\s*benefits)?)[\s:.-]*([\s\S]{0,1200})/i;
 
-  parseFromRawText(rawText: string) {
+  parseFromRawText(rawText: string, docId = documentIdFor(rawText)) {
+    // Replacing \r one-for-one keeps offsets valid against the caller's raw_text.
     const normalizedText = rawText.split("\r").join("\n");
-    const claimId = this.extractClaimId(normalizedText);
-    const patientName = this.extractPatientName(normalizedText);
-    const patientAddress = this.extractPatientAddress(normalizedText);
-    const denialCodes = this.extractDenialCodes(normalizedText);
-    const cptCodes = this.extractCptCodes(normalizedText);
-    const denialReason = this.extractDenialReason(normalizedText);
-    const identifiers = this.extractIdentifiers(normalizedText);
+    const diagnosisFields = this.extractDiagnosisCodes(normalizedText, docId);
+    const evidence: DenialFieldEvidence = {
+      claim_id: this.extractClaimId(normalizedText, docId),
+      patient_name: this.extractPatientName(normalizedText, docId),
+      patient_address: this.extractPatientAddress(normalizedText, docId),
+      identifiers: this.extractIdentifiers(normalizedText, docId),
+      denial_codes: this.extractDenialCodes(normalizedText, docId),
+      remark_codes: this.extractRemarkCodes(normalizedText, docId, diagnosisFields),
+      cpt_codes: this.extractCptCodes(normalizedText, docId),
+      diagnosis_codes: diagnosisFields,
+      policy_references: [],
+      denial_reason_text: this.extractDenialReason(normalizedText, docId),
+      letter_date: this.extractLetterDate(normalizedText, docId),
+      appeal_window_days: extractedField<number>(null, 0),
+      appeal_submission_methods: this.extractSubmissionMethods(normalizedText, docId),
+      appeals_address: this.extractAppealsAddress(normalizedText, docId),
+      appeals_fax: this.extractAppealsFax(normalizedText, docId),
+      payer_name: this.extractLabelledName(
+        normalizedText,
+        docId,
+        this.payerNamePattern,
+        "payer_name"
+      ),
+      provider_name: this.extractLabelledName(
+        normalizedText,
+        docId,
+        this.providerNamePattern,
+        "provider_name"
+      ),
+      amounts: this.extractAmounts(normalizedText, docId),
+      service_lines: this.extractServiceLines(normalizedText, docId, diagnosisFields),
+    };
+    evidence.appeal_window_days = this.extractAppealWindow(
+      normalizedText,
+      docId,
+      evidence.letter_date.value
+    );
+
+    const claimId = evidence.claim_id.value ?? "UNKNOWN";
+    const patientName = evidence.patient_name.value ?? "UNKNOWN";
+    const patientAddress = evidence.patient_address.value ?? "UNKNOWN";
+    const denialReason =
+      evidence.denial_reason_text.value ?? "Reason not clearly found in document.";
+    const identifiers = this.valuesOf(evidence.identifiers);
+    const denialCodes = this.valuesOf(evidence.denial_codes);
+    const remarkCodes = this.valuesOf(evidence.remark_codes);
+    const cptCodes = this.valuesOf(evidence.cpt_codes);
+    const diagnosisCodes = this.valuesOf(evidence.diagnosis_codes);
+    const letterDate = evidence.letter_date.value ?? "UNKNOWN";
+    const appealWindowDays = evidence.appeal_window_days.value;
 
     return {
+      document_id: docId,
       claim_id: claimId,
       patient_name: patientName,
       patient_address: patientAddress,
       identifiers,
       denial_codes: denialCodes,
+      remark_codes: remarkCodes,
       cpt_codes: cptCodes,
+      diagnosis_codes: diagnosisCodes,
       policy_references: [] as string[],
       denial_reason_text: denialReason,
+      letter_date: letterDate,
+      appeal_window_days: appealWindowDays,
+      appeal_submission_methods: this.valuesOf(evidence.appeal_submission_methods),
+      appeals_address: evidence.appeals_address.value ?? "UNKNOWN",
+      appeals_fax: evidence.appeals_fax.value ?? "UNKNOWN",
+      payer_name: evidence.payer_name.value ?? "UNKNOWN",
+      provider_name: evidence.provider_name.value ?? "UNKNOWN",
+      amounts: Object.fromEntries(
+        Object.entries(evidence.amounts).map(([key, field]) => [key, field.value])
+      ) as DenialAmounts,
+      service_lines: this.valuesOf(evidence.service_lines),
+      field_evidence: evidence,
       extraction_notes: {
         claim_id_found: claimId !== "UNKNOWN",
         patient_name_found: patientName !== "UNKNOWN",
         patient_address_found: patientAddress !== "UNKNOWN",
         identifiers_found: identifiers.length > 0,
         denial_codes_found: denialCodes.length > 0,
+        remark_codes_found: remarkCodes.length > 0,
         cpt_codes_found: cptCodes.length > 0,
+        diagnosis_codes_found: diagnosisCodes.length > 0,
         denial_reason_found:
           denialReason !== "Reason not clearly found in document.",
+        letter_date_found: letterDate !== "UNKNOWN",
+        appeal_window_found: appealWindowDays !== null,
+        amounts_found: Object.values(evidence.amounts).some(
+          (field) => field.value !== null
+        ),
+        service_lines_found: evidence.service_lines.length > 0,
       },
     };
   }
 
-  private extractClaimId(rawText: string): string {
-    for (const pattern of this.claimPatterns) {
+  private extractClaimId(rawText: string, docId: string): ExtractedField<string> {
+    for (const { pattern, confidence } of this.claimPatterns) {
       const match = pattern.exec(rawText);
       if (match?.[1]) {
-        return match[1].trim();
+        const group = this.groupMatch(match, 1);
+        return extractedField(group.value, confidence, [
+          spanAt(rawText, docId, group.start, group.end, "claim_id"),
+        ]);
       }
     }
-    return "UNKNOWN";
+    return extractedField<string>(null, 0);
   }
 
-  private extractDenialCodes(rawText: string): string[] {
-    const withGroupCode = Array.from(
-      rawText.matchAll(/\b(?:CO|PR|OA|PI)\s*-\s*\d{1,3}\b/gi)
-    ).map((match) => match[0].split(/\s+/).join(""));
+  private extractDenialCodes(
+    rawText: string,
+    docId: string
+  ): Array<ExtractedField<string>> {
+    const withGroupCode = Array.from(rawText.matchAll(DENIAL_CODE_REGEX), (match) =>
+      this.wholeMatch(match, formatGroupedCode(match[0]))
+    );
 
-    const knownStandalone = Object.keys(DenialMapping).filter((code) =>
-      new RegExp(String.raw`\b${code}\b`).test(rawText)
+    // Bare numbers are only trusted for a few well-known CARCs and could
+    // still be page numbers or amounts, so they get a lower confidence.
+    const knownStandalone = STANDALONE_CARC_CODES.flatMap((code) =>
+      Array.from(rawText.matchAll(new RegExp(String.raw`\b${code}\b`, "g")), (match) =>
+        this.wholeMatch(match, code)
+      )
     );
 
-    return Array.from(new Set([...withGroupCode, ...knownStandalone]));
+    return [
+      ...this.toFields(rawText, docId, "denial_code", withGroupCode, 0.9),
+      ...this.toFields(rawText, docId, "denial_code", knownStandalone, 0.5),
+    ];
+  }
+
+  /**
+   * Remark codes share their shape with undotted ICD-10 categories (M54, N18),
+   * so codes the diagnosis extractor claimed or that sit in a diagnosis list
+   * are left out.
+   */
+  private extractRemarkCodes(
+    rawText: string,
+    docId: string,
+    diagnosisCodes: Array<ExtractedField<string>>
+  ): Array<ExtractedField<string>> {
+    const remarkCodes = this.remarkCodeMatches(rawText, diagnosisCodes).map((match) =>
+      this.wholeMatch(match, match[0])
+    );
+    return this.toFields(rawText, docId, "remark_code", remarkCodes, 0.7);
   }
 
-  private extractCptCodes(rawText: string): string[] {
+  private extractCptCodes(
+    rawText: string,
+    docId: string
+  ): Array<ExtractedField<string>> {
     const labelledCodes = Array.from(
       rawText.matchAll(
         /\b(?:cpt|hcpcs|procedure\s*code|proc\s*code)\s*[:#-]?\s*([A-Z]?\d{4,5})\b/gi
-      )
-    ).map((match) => match[1].toUpperCase());
-    return Array.from(new Set(labelledCodes));
+      ),
+      (match) => {
+        const group = this.groupMatch(match, 1);
+        return { ...group, value: group.value.toUpperCase() };
+      }
+    );
+    return this.toFields(rawText, docId, "cpt_code", labelledCodes, 0.85);
   }
 
-  private extractDenialReason(rawText: string): string {
+  /**
+   * Dotted codes (E11.9) are read anywhere. Undotted ones (E119) look like
+   * HCPCS or remark codes, so they are only read from a labelled diagnosis
+   * list, which also keeps malformed entries so validation can flag them.
+   */
+  private extractDiagnosisCodes(
+    rawText: string,
+    docId: string
+  ): Array<ExtractedField<string>> {
+    const dottedCodes = Array.from(
+      rawText.matchAll(/\b[A-Z]\d[0-9A-Z]\.[0-9A-Z]{1,4}\b/g),
+      (match) => this.wholeMatch(match, match[0])
+    );
+
+    const labelledCodes = Array.from(
+      rawText.matchAll(
+        /\b(?:icd-?10(?:-cm)?|diagnosis|diag|dx)(?:\s*codes?)?\s*[:#-]\s*((?:[A-Z][0-9A-Z]{2}(?:\.?[0-9A-Z]{1,5})?\b[,; ]*)+)/gi
+      ),
+      (match) => this.groupMatch(match, 1)
+    ).flatMap((list) =>
+      Array.from(list.value.matchAll(/[A-Z][0-9A-Z]{2}(?:\.?[0-9A-Z]{1,5})?/gi), (code) => ({
+        value: normalizeIcd10Code(code[0]),
+        start: list.start + (code.index ?? 0),
+        end: list.start + (code.index ?? 0) + code[0].length,
+      })).filter((code) => /\d/.test(code.value))
+    );
+    const labelledStarts = new Set(labelledCodes.map((match) => match.start));
+
+    return this.toFields(
+      rawText,
+      docId,
+      "diagnosis_code",
+      [
+        ...labelledCodes,
+        ...dottedCodes.filter((match) => !labelledStarts.has(match.start)),
+      ],
+      0.8
+    );
+  }
+
+  /**
+   * Reads claim-level amounts from "Label: $1,234.00" pairs. A "Total ..." row
+   * wins over line-level rows; if a label repeats without a total, the first
+   * value is kept at low confidence.
+   */
+  private extractAmounts(
+    rawText: string,
+    docId: string
+  ): DenialFieldEvidence["amounts"] {
+    const extractOne = (key: keyof DenialAmounts): ExtractedField<number> => {
+      const regex = new RegExp(
+        String.raw`\b(total\s+)?(?:${AMOUNT_LABELS[key]})\s*[:#-]?\s*(${MONEY_PATTERN})`,
+        "gi"
+      );
+      const matches = Array.from(rawText.matchAll(regex)).filter(
+        (match) => parseMoney(match[2]) !== null
+      );
+      const chosen = matches.find((match) => match[1]) ?? matches[0];
+      if (!chosen) {
+        return extractedField<number>(null, 0);
+      }
+      const group = this.groupMatch(chosen, 2);
+      const span = spanAt(rawText, docId, group.start, group.end, `amount:${key}`);
+      const isTotal = Boolean(chosen[1]);
+      return isTotal || matches.length === 1
+        ? extractedField(parseMoney(group.value), isTotal ? 0.85 : 0.75, [span])
+        : extractedField(
+            parseMoney(group.value),
+            0.45,
+            [span],
+            `Found ${matches.length} "${key}" amounts and no total; the first was used.`
+          );
+    };
+
+    return {
+      billed: extractOne("billed"),
+      allowed: extractOne("allowed"),
+      paid: extractOne("paid"),
+      adjustments: extractOne("adjustments"),
+      patient_responsibility: extractOne("patient_responsibility"),
+    };
+  }
+
+  /**
+   * Reads EOB line items: a row with a CPT/HCPCS code plus a date or amount,
+   * followed by any code-only continuation rows. Amounts are assigned to
+   * columns using the nearest header row above; without one only the first
+   * amount (the charge) is trusted.
+   */
+  private extractServiceLines(
+    rawText: string,
+    docId: string,
+    diagnosisCodes: Array<ExtractedField<string>>
+  ): Array<ExtractedField<ServiceLine>> {
+    const lines = this.lineMatches(rawText);
+    const dateRegex = new RegExp(DATE_TEXT_PATTERN, "gi");
+    const moneyRegex = new RegExp(MONEY_PATTERN, "g");
+    const results: Array<ExtractedField<ServiceLine>> = [];
+    let header: Array<keyof DenialAmounts> | null = null;
+    let headerHasUnits = false;
+
+    for (let i = 0; i < lines.length; i += 1) {
+      const line = lines[i];
+      const money = Array.from(line.value.matchAll(moneyRegex));
+      const columns = this.amountColumns(line.value);
+      if (money.length === 0 && new Set(columns).size >= 2) {
+        header = columns;
+        headerHasUnits = /\b(?:units?|qty|days\/units)\b/i.test(line.value);
+        continue;
+      }
+
+      const dates = Array.from(line.value.matchAll(dateRegex));
+      const masked = this.maskMatches(line.value, [...money, ...dates]);
+      const codeMatch = masked.matchAll(PROCEDURE_CODE_REGEX).next().value;
+      if (
+        !codeMatch ||
+        /(?:claim|member|account|policy|id|no\.?|#)\s*[:#-]?\s*$/i.test(
+          masked.slice(0, codeMatch.index)
+        ) ||
+        ZIP_LINE_REGEX.test(line.value) ||
+        (money.length === 0 && dates.length === 0)
+      ) {
+        continue;
+      }
+
+      const { modifiers, length: modifierLength } = this.readModifiers(
+        masked.slice(codeMatch.index + codeMatch[0].length),
+        headerHasUnits
+      );
+
+      let end = line.end;
+      let codeText = masked;
+      for (let next = i + 1; next < lines.length && next <= i + 3; next += 1) {
+        const continuation = lines[next];
+        const hasCodes =
+          continuation.value.search(DENIAL_CODE_REGEX) !== -1 ||
+          continuation.value.search(LINE_REMARK_CODE_REGEX) !== -1;
+        // Continuation rows are usually indented under the code column, so
+        // only a blank line (not leading whitespace) ends the line item.
+        if (
+          rawText.slice(end, continuation.start).split("\n").length > 2 ||
+          !hasCodes ||
+          new RegExp(MONEY_PATTERN).test(continuation.value) ||
+          continuation.value.search(PROCEDURE_CODE_REGEX) !== -1
+        ) {
+          break;
+        }
+        codeText += `\n${continuation.value}`;
+        end = continuation.end;
+        i = next;
+      }
+
+      const denialCodes = Array.from(codeText.matchAll(DENIAL_CODE_REGEX), (match) =>
+        formatGroupedCode(match[0])
+      );
+      const remarkCodes = this.remarkCodeMatches(codeText, diagnosisCodes).map(
+        (match) => match[0]
+      );
+      const amounts = this.assignLineAmounts(
+        money.map((match) => parseMoney(match[0])),
+        header
+      );
+      const afterCode = masked
+        .slice(codeMatch.index + codeMatch[0].length + modifierLength)
+        .replace(DENIAL_CODE_REGEX, " ")
+        .replace(LINE_REMARK_CODE_REGEX, " ");
+      const unitsText =
+        /\b(?:units?|qty)\s*[:#]?\s*(\d{1,3})\b/i.exec(line.value)?.[1] ??
+        (headerHasUnits ? /\b(\d{1,3})\b/.exec(afterCode)?.[1] : undefined);
+
+      results.push(
+        extractedField<ServiceLine>(
+          {
+            line_number: results.length + 1,
+            procedure_code: codeMatch[0],
+            modifiers,
+            units: unitsText ? Number.parseInt(unitsText, 10) : null,
+            service_date: dates.length > 0 ? parseDateText(dates[0][0]) : null,
+            amounts,
+            denial_codes: Array.from(new Set(denialCodes)),
+            remark_codes: Array.from(new Set(remarkCodes)),
+          },
+          header ? 0.7 : 0.5,
+          [spanAt(rawText, docId, line.start, end, `service_line:${results.length + 1}`)],
+          header ? undefined : "No column header found; only the charge amount was assigned."
+        )
+      );
+    }
+    return results;
+  }
+
+  private amountColumns(value: string): Array<keyof DenialAmounts> {
+    return Array.from(value.matchAll(AMOUNT_COLUMN_REGEX), (match) => {
+      const label = match[0].toLowerCase();
+      if (/bill|charge|submitted/.test(label)) {
+        return "billed";
+      }
+      if (/allow/.test(label)) {
+        return "allowed";
+      }
+      if (/adjust|disallow|not\s+covered|write/.test(label)) {
+        return "adjustments";
+      }
+      if (/paid|payment/.test(label)) {
+        return "paid";
+      }
+      return "patient_responsibility";
+    });
+  }
+
+  /** Deductible, copay and coinsurance columns all add up to patient responsibility. */
+  private assignLineAmounts(
+    values: Array<number | null>,
+    header: Array<keyof DenialAmounts> | null
+  ): DenialAmounts {
+    const amounts: DenialAmounts = {
+      billed: null,
+      allowed: null,
+      paid: null,
+      adjustments: null,
+      patient_responsibility: null,
+    };
+    if (!header || header.length !== values.length) {
+      amounts.billed = values[0] ?? null;
+      return amounts;
+    }
+    header.forEach((key, index) => {
+      const value = values[index];
+      if (value !== null) {
+        amounts[key] = Math.round(((amounts[key] ?? 0) + value) * 100) / 100;
+      }
+    });
+    return amounts;
+  }
+
+  /**
+   * Reads modifiers after a procedure code: "99213-25", "97110:GP" or
+   * "97110 GP 59". A space-separated number is only a modifier when it is a
+   * known CPT modifier and, under a units column, another number follows to
+   * be the units ("99213 25 1" but not "99213 25" with 25 units).
+   */
+  private readModifiers(
+    rest: string,
+    unitsColumn: boolean
+  ): { modifiers: string[]; length: number } {
+    const modifiers: string[] = [];
+    let consumed = 0;
+    const modifierRegex =
+      /^(?:\s*[-:]\s*([A-Z0-9]{2})\b|\s+([A-Z]{2}|[A-Z]\d|\d[A-Z])\b(?!\s*-\s*\d)|\s+(\d{2})\b(?!\s*-\s*\d|[.,/]\d))/;
+    while (modifiers.length < 4) {
+      const match = modifierRegex.exec(rest.slice(consumed));
+      if (!match) {
+        break;
+      }
+      const after = rest.slice(consumed + match[0].length);
+      // "CO 45" is a group/reason pair, not a CO modifier.
+      if (match[2] && GROUP_CODE_REGEX.test(match[2]) && /^\s*\d/.test(after)) {
+        break;
+      }
+      if (match[3]) {
+        const remainder = after
+          .replace(DENIAL_CODE_REGEX, " ")
+          .replace(LINE_REMARK_CODE_REGEX, " ");
+        if (
+          !NUMERIC_MODIFIERS.has(match[3]) ||
+          (unitsColumn && !/\b\d{1,3}\b/.test(remainder))
+        ) {
+          break;
+        }
+      }
+      modifiers.push(match[1] ?? match[2] ?? match[3]);
+      consumed += match[0].length;
+    }
+    return { modifiers, length: consumed };
+  }
+
+  private remarkCodeMatches(
+    text: string,
+    diagnosisCodes: Array<ExtractedField<string>>
+  ): RegExpMatchArray[] {
+    const claimed = new Set(diagnosisCodes.map((field) => field.value));
+    return Array.from(text.matchAll(LINE_REMARK_CODE_REGEX)).filter((match) => {
+      const index = match.index ?? 0;
+      const lineStart = text.lastIndexOf("\n", index - 1) + 1;
+      return (
+        !claimed.has(match[0]) &&
+        !DIAGNOSIS_LIST_PREFIX_REGEX.test(text.slice(lineStart, index))
+      );
+    });
+  }
+
+  /** Blanks out matched substrings so codes are not read out of dates or amounts. */
+  private maskMatches(value: string, matches: RegExpMatchArray[]): string {
+    let masked = value;
+    for (const match of matches) {
+      const start = match.index ?? 0;
+      masked =
+        masked.slice(0, start) +
+        " ".repeat(match[0].length) +
+        masked.slice(start + match[0].length);
+    }
+    return masked;
+  }
+
+  private extractDenialReason(
+    rawText: string,
+    docId: string
+  ): ExtractedField<string> {
     const match = this.denialReasonPattern.exec(rawText);
     const firstParagraph = match?.[1]?.split(/\n{2,}/)[0]?.trim();
-    if (firstParagraph && firstParagraph.length >= 20) {
-      return firstParagraph;
+    if (match && firstParagraph && firstParagraph.length >= 20) {
+      const start = rawText.indexOf(firstParagraph, match.index);
+      return extractedField(firstParagraph, 0.6, [
+        spanAt(rawText, docId, start, start + firstParagraph.length, "denial_reason_text"),
+      ]);
     }
-    return "Reason not clearly found in document.";
+    return extractedField<string>(null, 0);
   }
 
-  private extractPatientName(rawText: string): string {
-    const patterns = [
-      /(?:patient\s*name|member\s*name|subscriber\s*name)\s*[:#-]?\s*([A-Z][A-Z ,.'-]{3,})/i,
-      /(?:name)\s*[:#-]?\s*([A-Z][A-Z ,.'-]{3,})/i,
+  private extractLetterDate(rawText: string, docId: string): ExtractedField<string> {
+    const labelled = new RegExp(
+      String.raw`(?:letter\s+date|notice\s+date|date\s+of\s+(?:this\s+)?(?:letter|notice)|^[ \t]*date)\s*[:#-]?\s*(${DATE_TEXT_PATTERN})`,
+      "im"
+    ).exec(rawText);
+    if (labelled?.[1]) {
+      const group = this.groupMatch(labelled, 1);
+      const isoDate = parseDateText(group.value);
+      if (isoDate) {
+        return extractedField(isoDate, 0.9, [
+          spanAt(rawText, docId, group.start, group.end, "letter_date"),
+        ]);
+      }
+    }
+
+    // Letters usually print their date in the header, but dates of service
+    // and birth appear there too, so those lines are skipped.
+    const header = rawText.slice(0, 800);
+    for (const match of header.matchAll(new RegExp(DATE_TEXT_PATTERN, "gi"))) {
+      const lineStart = header.lastIndexOf("\n", match.index) + 1;
+      const linePrefix = header.slice(lineStart, match.index);
+      const isoDate = parseDateText(match[0]);
+      if (isoDate && !/service|dos|birth|dob|from|through|thru/i.test(linePrefix)) {
+        return extractedField(isoDate, 0.5, [
+          spanAt(rawText, docId, match.index, match.index + match[0].length, "letter_date"),
+        ]);
+      }
+    }
+    return extractedField<string>(null, 0);
+  }
+
+  /** Reads "within 180 days" style windows, preferring ones stated near the word appeal. */
+  private extractAppealWindow(
+    rawText: string,
+    docId: string,
+    letterDate: string | null
+  ): ExtractedField<number> {
+    // Longest words first so "one hundred eighty" is not read as "one".
+    const numberPattern = [
+      ...Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length),
+      String.raw`\d{1,3}`,
+    ].join("|");
+    const windowRegex = new RegExp(
+      String.raw`(?:within|no\s+later\s+than|up\s+to|have)\s+(${numberPattern})\s*(?:\(\d{1,3}\)\s*)?(calendar\s+|business\s+|working\s+)?(days?|months?|years?)`,
+      "gi"
+    );
+
+    for (const match of rawText.matchAll(windowRegex)) {
+      const context = rawText.slice(Math.max(0, match.index - 250), match.index + 150);
+      if (!APPEAL_CONTEXT_REGEX.test(context)) {
+        continue;
+      }
+      const amountText = match[1].toLowerCase();
+      const amount = NUMBER_WORDS[amountText] ?? Number.parseInt(amountText, 10);
+      const unit = match[3].toLowerCase();
+      const span = spanAt(
+        rawText,
+        docId,
+        match.index,
+        match.index + match[0].length,
+        "appeal_window_days"
+      );
+
+      if (unit.startsWith("day")) {
+        return /business|working/i.test(match[2] ?? "")
+          ? extractedField(
+              Math.ceil((amount * 7) / 5),
+              0.6,
+              [span],
+              `Window stated as ${amount} business days; converted to calendar days.`
+            )
+          : extractedField(amount, 0.85, [span]);
+      }
+
+      const months = unit.startsWith("year") ? amount * 12 : amount;
+      return letterDate
+        ? extractedField(
+            daysBetween(letterDate, addMonths(letterDate, months)),
+            0.8,
+            [span],
+            `Window stated as ${match[1]} ${unit}; counted in calendar months from the letter date.`
+          )
+        : extractedField(
+            months * 30,
+            0.6,
+            [span],
+            `Window stated as ${match[1]} ${unit}; approximated at 30 days per month because no letter date was found.`
+          );
+    }
+    return extractedField<number>(null, 0);
+  }
+
+  private extractSubmissionMethods(
+    rawText: string,
+    docId: string
+  ): Array<ExtractedField<AppealSubmissionMethod>> {
+    const methodPatterns: Array<[AppealSubmissionMethod, RegExp]> = [
+      [
+        "mail",
+        /\b(?:mail(?:ed|ing)?|write\s+to|send\s+(?:your\s+)?(?:written\s+)?appeal|P\.?\s?O\.?\s+Box)\b/gi,
+      ],
+      ["fax", /\bfax(?:ed)?\b/gi],
+      ["portal", /\b(?:portal|online|website)\b|\bwww\.|https?:\/\//gi],
+      ["phone", /\b(?:call|phone|telephone)\b/gi],
     ];
-    for (const pattern of patterns) {
+
+    // Phone numbers and websites appear all over a letter; only the appeal
+    // instructions and the address/fax lines right after them say how to
+    // file. Phone appeals must be offered in the appeal sentence itself, since
+    // a nearby customer service number is not an appeal channel.
+    const sentences = Array.from(rawText.matchAll(/[^.\n]+/g));
+    const appealSentences = new Map<number, boolean>();
+    sentences.forEach((sentence, index) => {
+      if (APPEAL_CONTEXT_REGEX.test(sentence[0])) {
+        appealSentences.set(index, true);
+        for (let next = index + 1; next < index + 4 && next < sentences.length; next += 1) {
+          if (!appealSentences.has(next)) {
+            appealSentences.set(next, false);
+          }
+        }
+      }
+    });
+
+    const matches: Array<TextMatch & { method: AppealSubmissionMethod }> = [];
+    for (const [index, mentionsAppeal] of appealSentences) {
+      const sentence = sentences[index];
+      for (const [method, pattern] of methodPatterns) {
+        if (method === "phone" && !mentionsAppeal) {
+          continue;
+        }
+        for (const match of sentence[0].matchAll(pattern)) {
+          const start = (sentence.index ?? 0) + (match.index ?? 0);
+          matches.push({ method, value: method, start, end: start + match[0].length });
+        }
+      }
+    }
+
+    return this.toFields(rawText, docId, "appeal_submission_method", matches, 0.75).map(
+      (field) => field as ExtractedField<AppealSubmissionMethod>
+    );
+  }
+
+  private extractAppealsAddress(rawText: string, docId: string): ExtractedField<string> {
+    const lines = this.lineMatches(rawText);
+    const headingRegex =
+      /(?:appeals?\s+(?:department|dept\.?|unit|address|coordinator)|(?:send|mail)\s+(?:your\s+)?(?:written\s+)?(?:appeal|request)[^\n]*?\bto\b)/i;
+
+    for (let i = 0; i < lines.length; i += 1) {
+      const heading = headingRegex.exec(lines[i].value);
+      if (!heading) {
+        continue;
+      }
+      const zipIndex = lines
+        .slice(i, i + 6)
+        .findIndex((line) => ZIP_LINE_REGEX.test(line.value));
+      if (zipIndex === -1) {
+        continue;
+      }
+
+      // An instruction line ("Send your appeal to:") only contributes the text
+      // after "to"; a department line ("Attn: Appeals Unit") is part of the address.
+      const isInstruction = /\bto\b/i.test(heading[0]);
+      const headingRemainder = isInstruction
+        ? lines[i].value.slice(heading.index + heading[0].length).replace(/^[\s:]+/, "")
+        : lines[i].value;
+      const addressLines = [
+        ...(headingRemainder ? [headingRemainder] : []),
+        ...lines.slice(i + 1, i + zipIndex + 1).map((line) => line.value),
+      ];
+      const start = headingRemainder
+        ? lines[i].end - headingRemainder.length
+        : lines[i + 1].start;
+      return extractedField(addressLines.join(", "), 0.75, [
+        spanAt(rawText, docId, start, lines[i + zipIndex].end, "appeals_address"),
+      ]);
+    }
+    return extractedField<string>(null, 0);
+  }
+
+  private extractAppealsFax(rawText: string, docId: string): ExtractedField<string> {
+    const faxRegex = new RegExp(
+      String.raw`\bfax(?:\s*(?:number|no\.?|#))?\s*[:#-]?\s*(${PHONE_PATTERN})`,
+      "gi"
+    );
+    let fallback: ExtractedField<string> | null = null;
+    for (const match of rawText.matchAll(faxRegex)) {
+      const group = this.groupMatch(match, 1);
+      const span = spanAt(rawText, docId, group.start, group.end, "appeals_fax");
+      const context = rawText.slice(Math.max(0, match.index - 250), match.index);
+      if (APPEAL_CONTEXT_REGEX.test(context) || APPEAL_CONTEXT_REGEX.test(match[0])) {
+        return extractedField(group.value, 0.85, [span]);
+      }
+      fallback ??= extractedField(
+        group.value,
+        0.4,
+        [span],
+        "Fax number was not stated next to appeal instructions."
+      );
+    }
+    return fallback ?? extractedField<string>(null, 0);
+  }
+
+  private extractPatientName(
+    rawText: string,
+    docId: string
+  ): ExtractedField<string> {
+    for (const { pattern, confidence } of this.patientNamePatterns) {
       const match = pattern.exec(rawText);
       if (match?.[1]) {
-        return this.toTitleCase(match[1].trim());
+        const group = this.groupMatch(match, 1);
+        return extractedField(this.toTitleCase(group.value), confidence, [
+          spanAt(rawText, docId, group.start, group.end, "patient_name"),
+        ]);
       }
     }
-    return "UNKNOWN";
+    return extractedField<string>(null, 0);
   }
 
-  private extractPatientAddress(rawText: string): string {
-    const lines = rawText
-      .split("\n")
-      .map((line) => line.trim())
-      .filter(Boolean);
+  /** Reads a name after its label, stopping before an NPI/TIN on the same line. */
+  private extractLabelledName(
+    rawText: string,
+    docId: string,
+    pattern: RegExp,
+    label: string
+  ): ExtractedField<string> {
+    const match = pattern.exec(rawText);
+    if (!match?.[1]) {
+      return extractedField<string>(null, 0);
+    }
+    const group = this.groupMatch(match, 1);
+    const value = group.value
+      .replace(/[\s,;(-]*\b(?:NPI|TIN|tax\s*id|payer\s*id|ID)\b[\s\S]*$/i, "")
+      .trim();
+    if (value.length < 2 || /^\d/.test(value)) {
+      return extractedField<string>(null, 0);
+    }
+    return extractedField(value, 0.8, [
+      spanAt(rawText, docId, group.start, group.start + value.length, label),
+    ]);
+  }
 
-    const zipRegex = /\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/i;
+  private extractPatientAddress(
+    rawText: string,
+    docId: string
+  ): ExtractedField<string> {
+    const lines = this.lineMatches(rawText);
     for (let i = 0; i < lines.length - 1; i += 1) {
       const current = lines[i];
       const next = lines[i + 1];
-      if (/\d{1,5}\s+[A-Z0-9 .'-]{3,}/i.test(current) && zipRegex.test(next)) {
-        return `${this.toTitleCase(current)}, ${next.toUpperCase()}`;
+      if (/\d{1,5}\s+[A-Z0-9 .'-]{3,}/i.test(current.value) && ZIP_LINE_REGEX.test(next.value)) {
+        return extractedField(
+          `${this.toTitleCase(current.value)}, ${next.value.toUpperCase()}`,
+          0.6,
+          [spanAt(rawText, docId, current.start, next.end, "patient_address")]
+        );
       }
     }
-    return "UNKNOWN";
+    return extractedField<string>(null, 0);
   }
 
-  private extractIdentifiers(rawText: string): Array<{
-    label: string;
-    value: string;
-  }> {
-    const items: Array<{ label: string; value: string }> = [];
-
-    const labelPatterns = [
-      String.raw`member\s*id`,
-      String.raw`subscriber\s*id`,
-      String.raw`account\s*#?`,
-      String.raw`policy\s*#?`,
-      String.raw`reference\s*#?`,
-      String.raw`auth\s*#?`,
-      String.raw`authorization\s*#?`,
+  private extractIdentifiers(
+    rawText: string,
+    docId: string
+  ): Array<ExtractedField<{ label: string; value: string }>> {
+    // Specific labels come first so "Rendering NPI" is not also read as a bare "NPI".
+    const labelPatterns: Array<{ pattern: string; label?: string }> = [
+      { pattern: String.raw`member\s*id` },
+      { pattern: String.raw`subscriber\s*id` },
+      { pattern: String.raw`account\s*#?` },
+      { pattern: String.raw`policy\s*#?` },
+      { pattern: String.raw`reference\s*#?` },
+      { pattern: String.raw`auth\s*#?` },
+      { pattern: String.raw`authorization\s*#?` },
+      {
+        pattern: String.raw`rendering\s*(?:provider\s*)?npi`,
+        label: "rendering_provider_npi",
+      },
+      {
+        pattern: String.raw`billing\s*(?:provider\s*)?npi`,
+        label: "billing_provider_npi",
+      },
+      { pattern: String.raw`npi(?:\s*(?:number|no\.?|#))?`, label: "npi" },
+      {
+        pattern: String.raw`(?:federal\s*)?tax\s*id(?:entification)?(?:\s*(?:number|no\.?|#))?|tin\b|ein\b`,
+        label: "tax_id",
+      },
+      { pattern: String.raw`payer\s*id`, label: "payer_id" },
     ];
 
-    for (const labelPattern of labelPatterns) {
+    const deduped = new Map<
+      string,
+      ExtractedField<{ label: string; value: string }>
+    >();
+    const claimedValueStarts = new Set<number>();
+    for (const { pattern, label: canonicalLabel } of labelPatterns) {
       const regex = new RegExp(
-        String.raw`\b(${labelPattern})\s*[:#-]?\s*([A-Z0-9-]{4,})`,
+        String.raw`\b(${pattern})\s*[:#-]?\s*([A-Z0-9-]{4,})`,
         "gi"
       );
       for (const match of rawText.matchAll(regex)) {
         const label = match[1]?.trim();
         const value = match[2]?.trim();
-        if (label && value) {
-          items.push({
-            label: label.toLowerCase().split(/\s+/).join("_"),
-            value,
-          });
+        if (!label || !value) {
+          continue;
+        }
+        const valueStart = match.index + match[0].length - match[2].length;
+        if (canonicalLabel && claimedValueStarts.has(valueStart)) {
+          continue;
+        }
+        claimedValueStarts.add(valueStart);
+        const item = {
+          label: canonicalLabel ?? label.toLowerCase().split(/\s+/).join("_"),
+          value,
+        };
+        const span = spanAt(
+          rawText,
+          docId,
+          match.index,
+          match.index + match[0].length,
+          `identifier:${item.label}`
+        );
+        const key = `${item.label}:${item.value}`;
+        const existing = deduped.get(key);
+        if (existing) {
+          if (existing.spans.length < MAX_SPANS_PER_VALUE) {
+            existing.spans.push(span);
+          }
+        } else {
+          deduped.set(key, extractedField(item, 0.85, [span]));
         }
       }
     }
+    return Array.from(deduped.values());
+  }
 
-    const deduped = new Map<string, { label: string; value: string }>();
-    for (const item of items) {
-      deduped.set(`${item.label}:${item.value}`, item);
+  /** Collapses repeated matches of the same value into one field with several spans. */
+  private toFields(
+    rawText: string,
+    docId: string,
+    label: string,
+    matches: TextMatch[],
+    confidence: number
+  ): Array<ExtractedField<string>> {
+    const byValue = new Map<string, ExtractedField<string>>();
+    for (const match of matches) {
+      const span = spanAt(rawText, docId, match.start, match.end, `${label}:${match.value}`);
+      const existing = byValue.get(match.value);
+      if (!existing) {
+        byValue.set(match.value, extractedField(match.value, confidence, [span]));
+      } else if (existing.spans.length < MAX_SPANS_PER_VALUE) {
+        existing.spans.push(span);
+      }
     }
-    return Array.from(deduped.values());
+    return Array.from(byValue.values());
+  }
+
+  private lineMatches(rawText: string): TextMatch[] {
+    return Array.from(rawText.matchAll(/[^\n]+/g), (match) =>
+      this.wholeMatch(match, match[0])
+    ).filter((line) => line.value.length > 0);
+  }
+
+  private valuesOf<T>(fields: Array<ExtractedField<T>>): T[] {
+    return fields.flatMap((field) => (field.value === null ? [] : [field.value]));
+  }
+
+  private wholeMatch(match: RegExpMatchArray, value: string): TextMatch {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    const start = (match.index ?? 0) + leading;
+    return { value: value.trim(), start, end: start + trimmed.length };
+  }
+
+  private groupMatch(match: RegExpMatchArray, group: number): TextMatch {
+    const captured = match[group] ?? "";
+    const trimmed = captured.trim();
+    const start =
+      (match.index ?? 0) +
+      match[0].indexOf(captured) +
+      (captured.length - captured.trimStart().length);
+    return { value: trimmed, start, end: start + trimmed.length };
   }
 
   private toTitleCase(value: string): string {
@@ -0,0 +1,107 @@
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const MONTH_NAME = String.raw`(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?`;
+
+/** Matches the date formats payers print on letters: "February 21, 2026", "21 Feb 2026", "02/21/2026", "2026-02-21". */
+export const DATE_TEXT_PATTERN = String.raw`(?:${MONTH_NAME}\s+\d{1,2},?\s+\d{4}|\d{1,2}\s+${MONTH_NAME}\s+\d{4}|\d{1,2}[/-]\d{1,2}[/-]\d{2,4}|\d{4}-\d{2}-\d{2})`;
+
+const toIso = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+const monthIndex = (name: string): number =>
+  MONTHS.findIndex((month) => month.startsWith(name.toLowerCase().slice(0, 3))) + 1;
+
+/** Converts a date as printed on a letter to YYYY-MM-DD, or null if it is not a real date. */
+export const parseDateText = (value: string): string | null => {
+  const text = value.trim().replace(/\.(?=\s)/, "");
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (iso) {
+    return toIso(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const numeric = /^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/.exec(text);
+  if (numeric) {
+    const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+    return toIso(year, Number(numeric[1]), Number(numeric[2]));
+  }
+
+  const monthFirst = /^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i.exec(text);
+  if (monthFirst) {
+    return toIso(Number(monthFirst[3]), monthIndex(monthFirst[1]), Number(monthFirst[2]));
+  }
+
+  const dayFirst = /^(\d{1,2})\s+([a-z]+)\.?\s+(\d{4})$/i.exec(text);
+  if (dayFirst) {
+    return toIso(Number(dayFirst[3]), monthIndex(dayFirst[2]), Number(dayFirst[1]));
+  }
+
+  return null;
+};
+
+/** The ways an ISO date is likely to be printed, for locating it in letter text. */
+export const dateSearchTexts = (isoDate: string): string[] => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
+  if (!match) {
+    return [isoDate];
+  }
+  const [, year, month, day] = match;
+  const monthName = MONTHS[Number(month) - 1] ?? "";
+  return [
+    isoDate,
+    `${monthName} ${Number(day)}, ${year}`,
+    `${month}/${day}/${year}`,
+    `${Number(month)}/${Number(day)}/${year}`,
+    `${Number(day)} ${monthName} ${year}`,
+    `${monthName.slice(0, 3)} ${Number(day)}, ${year}`,
+  ];
+};
+
+export const addDays = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/** Adds calendar months, clamping to the last day of a shorter month. */
+export const addMonths = (isoDate: string, months: number): string => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return date.toISOString().slice(0, 10);
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      86_400_000
+  );
+
+export const todayIso = (): string => new Date().toISOString().slice(0, 10);
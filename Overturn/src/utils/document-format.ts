@@ -0,0 +1,80 @@
+export type DocumentFormat = "pdf" | "docx" | "tiff" | "jpeg" | "png" | "text";
+
+export const DOCUMENT_MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  tiff: "image/tiff",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  text: "text/plain",
+};
+
+const startsWith = (buffer: Buffer, bytes: number[]): boolean =>
+  bytes.every((byte, index) => buffer[index] === byte);
+
+/**
+ * Identifies a document by its magic bytes, ignoring the file extension.
+ * Throws "Unsupported document format" for recognizable but unsupported
+ * containers and for binary data it cannot identify.
+ */
+export const detectDocumentFormat = (buffer: Buffer): DocumentFormat => {
+  if (buffer.length === 0) {
+    throw new Error("Empty document: no bytes to extract.");
+  }
+  // The PDF header may follow a few bytes of junk, which readers tolerate.
+  if (buffer.subarray(0, 1024).includes("%PDF-")) {
+    return "pdf";
+  }
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) {
+    if (buffer.includes("word/")) {
+      return "docx";
+    }
+    throw new Error(
+      "Unsupported document format: ZIP archive that is not a Word DOCX file."
+    );
+  }
+  if (startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    throw new Error(
+      "Unsupported document format: legacy Word .doc. Save it as DOCX or PDF."
+    );
+  }
+  if (
+    startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return "tiff";
+  }
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return "jpeg";
+  }
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "png";
+  }
+  if (looksLikeText(buffer)) {
+    return "text";
+  }
+  throw new Error(
+    "Unsupported document format: expected PDF, DOCX, TIFF, JPEG, PNG or plain text."
+  );
+};
+
+/** Decodes base64 content, accepting data: URLs and line-wrapped payloads. */
+export const decodeBase64Content = (content: string): Buffer => {
+  const payload = content.replace(/^data:[^,]*;base64,/i, "").replace(/\s+/g, "");
+  if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(payload) || payload.length === 0) {
+    throw new Error("Invalid base64 content: expected base64-encoded document bytes.");
+  }
+  return Buffer.from(payload, payload.includes("-") || payload.includes("_") ? "base64url" : "base64");
+};
+
+// No NUL bytes and almost no control characters in the first 4 KB.
+const looksLikeText = (buffer: Buffer): boolean => {
+  const sample = buffer.subarray(0, 4096);
+  if (sample.includes(0)) {
+    return false;
+  }
+  const controls = sample.filter(
+    (byte) => byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c
+  ).length;
+  return controls / sample.length < 0.01;
+};
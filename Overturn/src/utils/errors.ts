@@ -1,5 +1,7 @@
 import { error } from "mcp-use/server";
 
+import type { DocumentFormat } from "./document-format.js";
+
 export type McpErrorCode =
   | "MCP_INVALID_INPUT"
   | "MCP_RESOURCE_UNREADABLE"
@@ -51,3 +53,90 @@ export const classifyPdfError = (
     message: `Failed to read or parse the PDF denial document. Details: ${message}`,
   };
 };
+
+/**
+ * Classifies extraction failures for any supported document format. Input
+ * problems (bad path, bad base64, unsupported format) are checked first;
+ * the rest are classified per format, with PDFs handled by classifyPdfError.
+ */
+export const classifyDocumentError = (
+  err: unknown,
+  format: DocumentFormat | null
+): { code: McpErrorCode; message: string } => {
+  const message = getErrorMessage(err);
+  const lower = message.toLowerCase();
+
+  if (/enoent|no such file|eisdir|enotdir/i.test(lower)) {
+    return {
+      code: "MCP_INVALID_INPUT",
+      message: "Invalid file path. Ensure the document exists and is readable.",
+    };
+  }
+
+  if (/eacces|eperm|permission denied/i.test(lower)) {
+    return {
+      code: "MCP_RESOURCE_UNREADABLE",
+      message: "Permission denied while reading the document file path.",
+    };
+  }
+
+  if (/invalid base64|empty document|unsupported document format|ocr is disabled/i.test(lower)) {
+    return { code: "MCP_INVALID_INPUT", message };
+  }
+
+  switch (format) {
+    case "pdf":
+      return classifyPdfError(err);
+    case "docx":
+      return {
+        code: "MCP_RESOURCE_UNREADABLE",
+        message: /central directory|corrupt|zip|could not find/i.test(lower)
+          ? `The DOCX file appears corrupted or truncated and cannot be opened. Details: ${message}`
+          : `Failed to read the DOCX denial document. Details: ${message}`,
+      };
+    case "tiff":
+    case "jpeg":
+    case "png":
+      return {
+        code: "MCP_RESOURCE_UNREADABLE",
+        message: /read image|decode|unsupported image|invalid|corrupt|truncated|no decodable/i.test(lower)
+          ? `The ${format.toUpperCase()} image could not be decoded for OCR. It may be truncated or use an unsupported encoding. Details: ${message}`
+          : `OCR failed for the ${format.toUpperCase()} image. Details: ${message}`,
+      };
+    default:
+      return {
+        code: "MCP_RESOURCE_UNREADABLE",
+        message: `Failed to read the denial document. Details: ${message}`,
+      };
+  }
+};
+
+export const classifyX12Error = (
+  err: unknown
+): { code: McpErrorCode; message: string } => {
+  const message = getErrorMessage(err);
+  const lower = message.toLowerCase();
+
+  if (/enoent|no such file|eisdir|enotdir/i.test(lower)) {
+    return {
+      code: "MCP_INVALID_INPUT",
+      message: "Invalid file path. Ensure the X12 file exists and is readable.",
+    };
+  }
+
+  if (/eacces|eperm|permission denied/i.test(lower)) {
+    return {
+      code: "MCP_RESOURCE_UNREADABLE",
+      message: "Permission denied while reading the X12 file path.",
+    };
+  }
+
+  if (/invalid x12|invalid 835|invalid 277/i.test(lower)) {
+    return { code: "MCP_INVALID_INPUT", message };
+  }
+
+  return {
+    code: "MCP_RESOURCE_UNREADABLE",
+    message: `Failed to read or parse the X12 file. Details: ${message}`,
+  };
+};
@@ -0,0 +1,95 @@
+export type ProviderIdentifierType = "npi" | "tin" | "payer_id";
+
+// IRS campus prefixes that have never been assigned to an EIN.
+const UNASSIGNED_EIN_PREFIXES = new Set([
+  "00", "07", "08", "09", "17", "18", "19", "28", "29",
+  "49", "69", "70", "78", "79", "89", "96", "97",
+]);
+
+// Characters OCR commonly reads in place of digits.
+const OCR_DIGIT_CONFUSIONS: Record<string, string> = {
+  O: "0",
+  D: "0",
+  Q: "0",
+  I: "1",
+  L: "1",
+  Z: "2",
+  S: "5",
+  G: "6",
+  B: "8",
+};
+
+export const identifierTypeOf = (label: string): ProviderIdentifierType | null => {
+  if (/(?:^|_)npi$/.test(label)) {
+    return "npi";
+  }
+  if (/(?:^|_)(?:tin|ein|tax_id\w*|federal_tax_id\w*)$/.test(label)) {
+    return "tin";
+  }
+  if (/(?:^|_)payer_id$/.test(label)) {
+    return "payer_id";
+  }
+  return null;
+};
+
+/**
+ * NPI check digit: Luhn over the first nine digits prefixed with the card
+ * issuer prefix 80840, which contributes a constant 24 to the sum.
+ */
+export const isValidNpi = (value: string): boolean => {
+  if (!/^[12]\d{9}$/.test(value)) {
+    return false;
+  }
+  let sum = 24;
+  for (let index = 0; index < 9; index += 1) {
+    let digit = Number(value[8 - index]);
+    if (index % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(value[9]);
+};
+
+/** Checks an EIN (XX-XXXXXXX) or SSN (XXX-XX-XXXX) by format and reserved ranges. */
+export const tinFormatIssue = (value: string): string | null => {
+  const digits = value.replace(/[\s-]/g, "");
+  if (!/^\d{9}$/.test(digits)) {
+    return "A TIN must have exactly nine digits.";
+  }
+  if (/^\d{3}-\d{2}-\d{4}$/.test(value.trim())) {
+    const area = digits.slice(0, 3);
+    const group = digits.slice(3, 5);
+    const serial = digits.slice(5);
+    const neverIssued =
+      area === "000" ||
+      area === "666" ||
+      area.startsWith("9") ||
+      group === "00" ||
+      serial === "0000";
+    if (neverIssued) {
+      return "Not a valid SSN: the area, group or serial number is in a range that is never issued.";
+    }
+    return null;
+  }
+  if (UNASSIGNED_EIN_PREFIXES.has(digits.slice(0, 2))) {
+    return `Not a valid EIN: prefix ${digits.slice(0, 2)} has never been assigned.`;
+  }
+  return null;
+};
+
+export const payerIdFormatIssue = (value: string): string | null =>
+  /^[A-Z0-9]{2,10}$/i.test(value.replace(/-/g, ""))
+    ? null
+    : "A payer ID is 2-10 letters or digits.";
+
+/** Replaces letters OCR often confuses with digits; returns null if nothing changed. */
+export const ocrDigitCorrection = (value: string): string | null => {
+  const corrected = value
+    .toUpperCase()
+    .replace(/[A-Z]/g, (char) => OCR_DIGIT_CONFUSIONS[char] ?? char);
+  return corrected === value.toUpperCase() ? null : corrected;
+};
@@ -0,0 +1,153 @@
+/** Top-left origin, in the page's unit. */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutItem {
+  text: string;
+  bbox: BoundingBox;
+}
+
+/** A run of text on one line, separated from its neighbours by a wide gap (a table cell or a label/value column). */
+export interface TextSpan {
+  text: string;
+  bbox: BoundingBox;
+}
+
+export interface TextLine {
+  text: string;
+  bbox: BoundingBox;
+  spans: TextSpan[];
+}
+
+export interface TextBlock {
+  text: string;
+  bbox: BoundingBox;
+  lines: TextLine[];
+}
+
+export interface PageLayout {
+  page_number: number;
+  /** Page size; block bounding boxes use a top-left origin in the same unit. */
+  width: number;
+  height: number;
+  /** PDF points for PDFs, pixels for images. */
+  unit: "pt" | "px";
+  source: "text_layer" | "ocr";
+  /** Offsets of this page's text in raw_text. */
+  raw_text_start: number;
+  raw_text_end: number;
+  blocks: TextBlock[];
+}
+
+// Gaps are measured in multiples of the line's text height.
+const WORD_GAP = 0.15;
+const SPAN_GAP = 2;
+const BLOCK_GAP = 1;
+
+/** Groups positioned words or text runs into lines, spans and vertically separated blocks. */
+export const buildTextBlocks = (items: LayoutItem[]): TextBlock[] => {
+  const sorted = items
+    .filter((item) => item.text.trim().length > 0)
+    .sort((a, b) => a.bbox.y - b.bbox.y || a.bbox.x - b.bbox.x);
+
+  const lineGroups: LayoutItem[][] = [];
+  for (const item of sorted) {
+    const current = lineGroups[lineGroups.length - 1];
+    if (current && sharesLine(unionBox(current.map((entry) => entry.bbox)), item.bbox)) {
+      current.push(item);
+    } else {
+      lineGroups.push([item]);
+    }
+  }
+
+  const blocks: TextBlock[] = [];
+  let blockLines: TextLine[] = [];
+  for (const line of lineGroups.map(buildLine)) {
+    const previous = blockLines[blockLines.length - 1];
+    if (
+      previous &&
+      line.bbox.y - (previous.bbox.y + previous.bbox.height) > previous.bbox.height * BLOCK_GAP
+    ) {
+      blocks.push(buildBlock(blockLines));
+      blockLines = [];
+    }
+    blockLines.push(line);
+  }
+  if (blockLines.length > 0) {
+    blocks.push(buildBlock(blockLines));
+  }
+  return blocks;
+};
+
+const buildLine = (items: LayoutItem[]): TextLine => {
+  const ordered = [...items].sort((a, b) => a.bbox.x - b.bbox.x);
+  const height = Math.max(...ordered.map((item) => item.bbox.height));
+
+  const spanGroups: LayoutItem[][] = [];
+  for (const item of ordered) {
+    const current = spanGroups[spanGroups.length - 1];
+    const last = current?.[current.length - 1];
+    if (last && item.bbox.x - (last.bbox.x + last.bbox.width) <= height * SPAN_GAP) {
+      current.push(item);
+    } else {
+      spanGroups.push([item]);
+    }
+  }
+
+  const spans = spanGroups.map((group) => ({
+    text: joinWords(group, height),
+    bbox: unionBox(group.map((item) => item.bbox)),
+  }));
+  return {
+    text: spans.map((span) => span.text).join("\t"),
+    bbox: unionBox(spans.map((span) => span.bbox)),
+    spans,
+  };
+};
+
+const buildBlock = (lines: TextLine[]): TextBlock => ({
+  text: lines.map((line) => line.text).join("\n"),
+  bbox: unionBox(lines.map((line) => line.bbox)),
+  lines,
+});
+
+const joinWords = (items: LayoutItem[], height: number): string =>
+  items
+    .reduce((text, item, index) => {
+      if (index === 0) {
+        return item.text;
+      }
+      const previous = items[index - 1];
+      const gap = item.bbox.x - (previous.bbox.x + previous.bbox.width);
+      const needsSpace =
+        gap > height * WORD_GAP && !/\s$/.test(text) && !/^\s/.test(item.text);
+      return `${text}${needsSpace ? " " : ""}${item.text}`;
+    }, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Two boxes share a line when they overlap vertically by at least half the shorter one.
+const sharesLine = (line: BoundingBox, item: BoundingBox): boolean => {
+  const overlap =
+    Math.min(line.y + line.height, item.y + item.height) - Math.max(line.y, item.y);
+  return overlap >= Math.min(line.height, item.height) / 2;
+};
+
+const unionBox = (boxes: BoundingBox[]): BoundingBox => {
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return {
+    x: round(left),
+    y: round(top),
+    width: round(right - left),
+    height: round(bottom - top),
+  };
+};
+
+const round = (value: number): number => Math.round(value * 10) / 10;
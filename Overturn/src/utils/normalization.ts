@@ -1,6 +1,72 @@
+import { GROUP_CODE_PATTERN } from "../constants/denial.js";
+
+const GROUP_PREFIX_REGEX = new RegExp(String.raw`^(${GROUP_CODE_PATTERN})-?(?=[A-Z]?\d)`);
+const REMARK_CODE_REGEX = /^(?:MA|M|N)\d{1,3}$/;
+const ALPHANUMERIC_CARC_REGEX = /^[A-Z]\d{1,2}$/;
+
+const compactCode = (rawCode: string): string =>
+  rawCode.trim().toUpperCase().split(/\s+/).join("");
+
+export const isRemarkCode = (code: string): boolean =>
+  REMARK_CODE_REGEX.test(compactCode(code));
+
+export const extractGroupCode = (rawCode: string): string | null =>
+  GROUP_PREFIX_REGEX.exec(compactCode(rawCode))?.[1] ?? null;
+
+const ICD10_CODE_REGEX = /^[A-Z]\d[0-9A-Z](?:\.[0-9A-Z]{1,4})?$/;
+
+export const isIcd10Code = (code: string): boolean =>
+  ICD10_CODE_REGEX.test(code);
+
+/** Uppercases an ICD-10-CM code and restores the dot that claims often omit ("E119" -> "E11.9"). */
+export const normalizeIcd10Code = (rawCode: string): string => {
+  const cleaned = compactCode(rawCode).replace(/\.$/, "");
+  if (!cleaned.includes(".") && cleaned.length > 3) {
+    return `${cleaned.slice(0, 3)}.${cleaned.slice(3)}`;
+  }
+  return cleaned;
+};
+
 export const normalizeCode = (rawCode: string): string => {
-  const cleaned = rawCode.trim().toUpperCase().split(/\s+/).join("");
+  const cleaned = compactCode(rawCode);
+  if (REMARK_CODE_REGEX.test(cleaned)) {
+    return cleaned;
+  }
+  const withoutPrefix = cleaned
+    .replace(/^CARC[:#-]?/, "")
+    .replace(GROUP_PREFIX_REGEX, "");
+  if (ALPHANUMERIC_CARC_REGEX.test(withoutPrefix)) {
+    return withoutPrefix;
+  }
   const trailingDigitsRegex = /(\d{1,3})$/;
   const digits = trailingDigitsRegex.exec(cleaned)?.[1];
   return digits ?? cleaned;
 };
+
+/** Parses "$1,234.50" / "1234.5" / "(12.00)" into a number; parentheses mean negative. */
+export const parseMoney = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  const cleaned = value.trim();
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.startsWith("-");
+  const digits = cleaned.replace(/[^\d.]/g, "");
+  if (!/^\d+(?:\.\d{1,2})?$/.test(digits)) {
+    return null;
+  }
+  const amount = Number.parseFloat(digits);
+  return negative ? -amount : amount;
+};
+
+/** The ways an amount is likely to be printed, for locating it in letter text. */
+export const moneySearchTexts = (amount: number): string[] => {
+  const fixed = Math.abs(amount).toFixed(2);
+  const withCommas = Number(fixed).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return Array.from(new Set([`$${withCommas}`, withCommas, `$${fixed}`, fixed]));
+};
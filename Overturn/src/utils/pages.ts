@@ -0,0 +1,96 @@
+export interface TextPage {
+  page_number: number;
+  start: number;
+  end: number;
+}
+
+export interface TextChunk {
+  index: number;
+  pages: number[];
+  start: number;
+  end: number;
+  text: string;
+}
+
+// pdf-parse ends every page with "-- N of M --".
+const PAGE_MARKER_REGEX = /^-- (\d+) of \d+ --$/gm;
+
+export const DEFAULT_CHUNK_CHARS = 12_000;
+
+/** Joins per-page text with the same markers pdf-parse writes, so splitPages can find the pages again. */
+export const joinPageTexts = (pageTexts: string[], total = pageTexts.length): string =>
+  pageTexts
+    .map((text, index) => `${text}\n\n-- ${index + 1} of ${total} --`)
+    .join("\n\n")
+    .trim();
+
+/** Page boundaries in extracted text, as offsets into it. Text without page markers is one page. */
+export const splitPages = (rawText: string): TextPage[] => {
+  const pages: TextPage[] = [];
+  let start = 0;
+  for (const match of rawText.matchAll(PAGE_MARKER_REGEX)) {
+    const end = match.index + match[0].length;
+    pages.push({ page_number: Number(match[1]), start, end });
+    start = end;
+  }
+  if (start < rawText.length && rawText.slice(start).trim().length > 0) {
+    pages.push({ page_number: pages.length + 1, start, end: rawText.length });
+  } else if (pages.length > 0) {
+    pages[pages.length - 1].end = rawText.length;
+  }
+  return pages.length > 0 ? pages : [{ page_number: 1, start: 0, end: rawText.length }];
+};
+
+/**
+ * Groups whole pages into chunks of at most maxChars. A page longer than that
+ * is split at line breaks so no text is dropped.
+ */
+export const chunkPages = (
+  rawText: string,
+  maxChars = DEFAULT_CHUNK_CHARS
+): TextChunk[] => {
+  const pieces = splitPages(rawText).flatMap((page) =>
+    splitLongRange(rawText, page.start, page.end, maxChars).map((range) => ({
+      ...range,
+      page_number: page.page_number,
+    }))
+  );
+
+  const chunks: TextChunk[] = [];
+  for (const piece of pieces) {
+    const current = chunks[chunks.length - 1];
+    if (current && piece.end - current.start <= maxChars) {
+      current.end = piece.end;
+      if (!current.pages.includes(piece.page_number)) {
+        current.pages.push(piece.page_number);
+      }
+      continue;
+    }
+    chunks.push({
+      index: chunks.length,
+      pages: [piece.page_number],
+      start: piece.start,
+      end: piece.end,
+      text: "",
+    });
+  }
+  return chunks.map((chunk) => ({ ...chunk, text: rawText.slice(chunk.start, chunk.end) }));
+};
+
+const splitLongRange = (
+  rawText: string,
+  start: number,
+  end: number,
+  maxChars: number
+): Array<{ start: number; end: number }> => {
+  const ranges: Array<{ start: number; end: number }> = [];
+  let position = start;
+  while (end - position > maxChars) {
+    const lineBreak = rawText.lastIndexOf("\n", position + maxChars);
+    const splitAt = lineBreak > position + maxChars / 2 ? lineBreak + 1 : position + maxChars;
+    ranges.push({ start: position, end: splitAt });
+    position = splitAt;
+  }
+  ranges.push({ start: position, end });
+  return ranges;
+};
@@ -0,0 +1,41 @@
+import type { KnownPhiValue } from "@overturn/phi-redaction";
+
+import type { ParsedDenialFields } from "../schemas/tool-schemas.js";
+
+/**
+ * PHI the regex parse already found, so the redactor replaces it wherever it
+ * repeats in the packet, including unlabelled mentions in later chunks.
+ */
+export const knownPhiForParsedFields = (
+  fields: Pick<ParsedDenialFields, "patient_name" | "patient_address" | "identifiers">
+): KnownPhiValue[] => {
+  const known: KnownPhiValue[] = [];
+  if (fields.patient_name !== "UNKNOWN") {
+    known.push({ category: "NAME", value: fields.patient_name });
+  }
+  if (fields.patient_address !== "UNKNOWN") {
+    known.push({ category: "ADDRESS", value: fields.patient_address });
+  }
+  for (const { label, value } of fields.identifiers) {
+    const category = identifierPhiCategory(label);
+    if (category) {
+      known.push({ category, value });
+    }
+  }
+  return known;
+};
+
+// Provider, payer and claim reference identifiers are not patient PHI.
+const identifierPhiCategory = (label: string): KnownPhiValue["category"] | null => {
+  const normalized = label.toLowerCase().replace(/[^a-z]/g, "");
+  if (/^(?:member|subscriber|policy|insured|patient)/.test(normalized)) {
+    return "MEMBER_ID";
+  }
+  if (/^(?:account|patientaccount)/.test(normalized)) {
+    return "ACCOUNT_NUMBER";
+  }
+  if (/^(?:mrn|medicalrecord)/.test(normalized)) {
+    return "MEDICAL_RECORD_NUMBER";
+  }
+  return null;
+};
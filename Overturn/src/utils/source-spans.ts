@@ -0,0 +1,142 @@
+import { createHash } from "node:crypto";
+
+import type { DenialAmounts, ServiceLine } from "../schemas/tool-schemas.js";
+
+/** Mirrors `SourceSpan` in appeal-writer-mcp/src/types.ts. */
+export interface SourceSpan {
+  docId: string;
+  start: number;
+  end: number;
+  snippet: string;
+  label: string;
+}
+
+/** Mirrors `ExtractedField<T>` in appeal-writer-mcp/src/types.ts. */
+export interface ExtractedField<T> {
+  value: T | null;
+  confidence: number;
+  spans: SourceSpan[];
+  notes?: string;
+}
+
+/** Per-field evidence returned alongside the flat parsed denial fields. */
+export interface DenialFieldEvidence {
+  claim_id: ExtractedField<string>;
+  patient_name: ExtractedField<string>;
+  patient_address: ExtractedField<string>;
+  identifiers: Array<ExtractedField<{ label: string; value: string }>>;
+  denial_codes: Array<ExtractedField<string>>;
+  remark_codes: Array<ExtractedField<string>>;
+  cpt_codes: Array<ExtractedField<string>>;
+  diagnosis_codes: Array<ExtractedField<string>>;
+  policy_references: Array<ExtractedField<string>>;
+  denial_reason_text: ExtractedField<string>;
+  letter_date: ExtractedField<string>;
+  appeal_window_days: ExtractedField<number>;
+  appeal_submission_methods: Array<
+    ExtractedField<"mail" | "fax" | "portal" | "phone" | "other">
+  >;
+  appeals_address: ExtractedField<string>;
+  appeals_fax: ExtractedField<string>;
+  payer_name: ExtractedField<string>;
+  provider_name: ExtractedField<string>;
+  amounts: Record<keyof DenialAmounts, ExtractedField<number>>;
+  service_lines: Array<ExtractedField<ServiceLine>>;
+}
+
+const SNIPPET_MAX_LENGTH = 160;
+const MAX_LOCATED_SPANS = 5;
+
+export const documentIdFor = (rawText: string): string =>
+  `doc_${createHash("sha256").update(rawText).digest("hex").slice(0, 16)}`;
+
+export const spanAt = (
+  rawText: string,
+  docId: string,
+  start: number,
+  end: number,
+  label: string
+): SourceSpan => ({
+  docId,
+  start,
+  end,
+  snippet: rawText.slice(start, end).slice(0, SNIPPET_MAX_LENGTH),
+  label,
+});
+
+export const extractedField = <T>(
+  value: T | null,
+  confidence: number,
+  spans: SourceSpan[] = [],
+  notes?: string
+): ExtractedField<T> => ({
+  value,
+  confidence: value === null ? 0 : Math.round(confidence * 100) / 100,
+  spans,
+  ...(notes ? { notes } : {}),
+});
+
+const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Finds every place a value appears in the source text. Matching is
+ * case-insensitive and tolerant of whitespace/line-break differences, since
+ * model output and PDF text rarely agree on either.
+ */
+export const locateValue = (
+  rawText: string,
+  value: string,
+  docId: string,
+  label: string
+): SourceSpan[] => {
+  const tokens = value.trim().split(/\s+/).filter(Boolean).map(escapeRegex);
+  if (tokens.length === 0) {
+    return [];
+  }
+  const pattern = new RegExp(
+    String.raw`(?<![A-Za-z0-9])${tokens.join(String.raw`[\s,]+`)}(?![A-Za-z0-9])`,
+    "gi"
+  );
+  const spans: SourceSpan[] = [];
+  for (const match of rawText.matchAll(pattern)) {
+    spans.push(
+      spanAt(rawText, docId, match.index, match.index + match[0].length, label)
+    );
+    if (spans.length >= MAX_LOCATED_SPANS) {
+      break;
+    }
+  }
+  return spans;
+};
+
+/**
+ * Builds evidence for a value reported without offsets (e.g. by an LLM).
+ * Search texts are tried in order until one is found. Located values keep the
+ * base confidence; values that cannot be found in the source text are kept but
+ * down-weighted, since they may be hallucinated.
+ */
+export const locatedField = <T>(
+  rawText: string,
+  docId: string,
+  label: string,
+  value: T | null,
+  searchTexts: string[],
+  baseConfidence: number
+): ExtractedField<T> => {
+  if (value === null) {
+    return extractedField<T>(null, 0);
+  }
+  for (const searchText of searchTexts) {
+    const spans = locateValue(rawText, searchText, docId, label);
+    if (spans.length > 0) {
+      return extractedField(value, baseConfidence, spans);
+    }
+  }
+  return extractedField(
+    value,
+    baseConfidence * 0.4,
+    [],
+    "Value was not found verbatim in the source text."
+  );
+};
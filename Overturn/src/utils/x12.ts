@@ -0,0 +1,168 @@
+export interface X12Delimiters {
+  element: string;
+  component: string;
+  repetition: string;
+  segment: string;
+}
+
+export interface X12Segment {
+  id: string;
+  /** Index 0 is the segment ID, so `elements[1]` is the XX01 element. */
+  elements: string[];
+}
+
+export interface X12Document {
+  delimiters: X12Delimiters;
+  segments: X12Segment[];
+  interchange: {
+    sender_id: string;
+    receiver_id: string;
+    date: string | null;
+    control_number: string;
+    usage: "production" | "test" | "unknown";
+  };
+}
+
+const ISA_LENGTH = 106;
+
+/**
+ * Splits an X12 interchange into segments. Delimiters are read from the
+ * fixed-width ISA header rather than assumed, since payers vary them.
+ */
+export const parseX12Document = (content: string): X12Document => {
+  const trimmed = content.replace(/^\uFEFF/, "").trimStart();
+  if (!trimmed.startsWith("ISA")) {
+    throw new Error(
+      "Invalid X12 interchange: content does not start with an ISA segment."
+    );
+  }
+  if (trimmed.length < ISA_LENGTH) {
+    throw new Error("Invalid X12 interchange: ISA segment is truncated.");
+  }
+
+  const delimiters: X12Delimiters = {
+    element: trimmed[3],
+    repetition: trimmed[82],
+    component: trimmed[104],
+    segment: trimmed[105],
+  };
+
+  const segments = trimmed
+    .split(delimiters.segment)
+    .map((raw) => raw.replace(/^[\r\n]+/, "").trim())
+    .filter(Boolean)
+    .map((raw) => {
+      const elements = raw.split(delimiters.element).map((value) => value.trim());
+      return { id: elements[0].toUpperCase(), elements };
+    });
+
+  const isa = segments[0].elements;
+  return {
+    delimiters,
+    segments,
+    interchange: {
+      sender_id: isa[6] ?? "",
+      receiver_id: isa[8] ?? "",
+      date: toIsoDate(isa[9] ?? ""),
+      control_number: isa[13] ?? "",
+      usage: isa[15] === "P" ? "production" : isa[15] === "T" ? "test" : "unknown",
+    },
+  };
+};
+
+export const element = (segment: X12Segment, position: number): string =>
+  segment.elements[position] ?? "";
+
+export const components = (
+  value: string,
+  delimiters: X12Delimiters
+): string[] => value.split(delimiters.component).map((part) => part.trim());
+
+export const toAmount = (value: string): number | null => {
+  if (!value) {
+    return null;
+  }
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/** Converts CCYYMMDD (or ISA-style YYMMDD) to YYYY-MM-DD. */
+export const toIsoDate = (value: string): string | null => {
+  const digits = value.trim();
+  if (/^\d{8}$/.test(digits)) {
+    return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+  }
+  if (/^\d{6}$/.test(digits)) {
+    return `20${digits.slice(0, 2)}-${digits.slice(2, 4)}-${digits.slice(4, 6)}`;
+  }
+  return null;
+};
+
+/**
+ * Checks ISA/IEA, GS/GE and ST/SE pairing and SE segment counts, returning
+ * human-readable warnings instead of failing the whole file.
+ */
+export const validateX12Envelopes = (segments: X12Segment[]): string[] => {
+  const warnings: string[] = [];
+  let openGroup: string | null = null;
+  let openTransaction: { control: string; start: number } | null = null;
+  let sawIea = false;
+
+  for (const [index, segment] of segments.entries()) {
+    switch (segment.id) {
+      case "GS":
+        if (openGroup) {
+          warnings.push(`GS ${openGroup} has no matching GE segment.`);
+        }
+        openGroup = element(segment, 6);
+        break;
+      case "GE":
+        if (openGroup && element(segment, 2) !== openGroup) {
+          warnings.push(
+            `GE control number ${element(segment, 2)} does not match GS ${openGroup}.`
+          );
+        }
+        openGroup = null;
+        break;
+      case "ST":
+        if (openTransaction) {
+          warnings.push(
+            `ST ${openTransaction.control} has no matching SE segment.`
+          );
+        }
+        openTransaction = { control: element(segment, 2), start: index };
+        break;
+      case "SE": {
+        if (!openTransaction) {
+          warnings.push("SE segment found without a preceding ST segment.");
+          break;
+        }
+        const expected = Number.parseInt(element(segment, 1), 10);
+        const actual = index - openTransaction.start + 1;
+        if (Number.isFinite(expected) && expected !== actual) {
+          warnings.push(
+            `Transaction ${openTransaction.control} declares ${expected} segments but contains ${actual}.`
+          );
+        }
+        openTransaction = null;
+        break;
+      }
+      case "IEA":
+        sawIea = true;
+        break;
+      default:
+        break;
+    }
+  }
+
+  if (openTransaction) {
+    warnings.push("Interchange ends inside an unterminated ST transaction.");
+  }
+  if (openGroup) {
+    warnings.push("Interchange ends inside an unterminated GS functional group.");
+  }
+  if (!sawIea) {
+    warnings.push("Interchange has no IEA trailer; the file may be truncated.");
+  }
+  return warnings;
+};
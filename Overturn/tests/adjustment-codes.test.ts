@@ -0,0 +1,65 @@
+/**
+ * Bundled CARC/RARC dictionary tests.
+ *
+ * Tests:
+ *  - A revised CARC resolves the text on either side of its revision date
+ *  - Codes without a bundled start date report active_on_date null and a date_note
+ *  - A deactivated code is inactive after its deactivation date
+ *  - Unknown codes are reported as outside the bundled subset
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  AdjustmentCodeDictionary,
+  UNDATED_CODE_NOTE,
+} from "../src/services/adjustment-code-dictionary.service.js";
+import { DenialAnalysisService } from "../src/services/denial-analysis.service.js";
+
+describe("AdjustmentCodeDictionary", () => {
+  const dictionary = new AdjustmentCodeDictionary();
+
+  it("resolves the text of a revised CARC on each side of the revision", () => {
+    const before = dictionary.lookup("16", "2005-05-01");
+    const after = dictionary.lookup("CO-16", "2024-05-01");
+
+    expect(before?.title).toBe("Claim/service lacks information which is needed for adjudication");
+    expect(before?.active_on_date).toBeNull();
+    expect(after?.title).toMatch(/submission\/billing error/);
+    expect(after?.active_on_date).toBe(true);
+  });
+
+  it("does not claim an undated code was active on a date", () => {
+    expect(dictionary.lookup("96", "2024-05-01")?.active_on_date).toBeNull();
+    expect(dictionary.lookup("N130", "2024-05-01")?.active_on_date).toBeNull();
+    expect(dictionary.lookup("96")?.active_on_date).toBe(true);
+  });
+
+  it("reports a deactivated code as inactive after its deactivation date", () => {
+    expect(dictionary.lookup("62", "2015-01-01")?.active_on_date).toBe(false);
+    expect(dictionary.lookup("62")?.active_on_date).toBe(false);
+  });
+
+  it("counts the bundled codes by type", () => {
+    expect(dictionary.carcCount + dictionary.rarcCount).toBe(dictionary.size);
+  });
+});
+
+describe("DenialAnalysisService.analyzeCodes", () => {
+  const service = new DenialAnalysisService();
+
+  it("adds a date note only when the date cannot be checked", () => {
+    const [undated, dated] = service.analyzeCodes(["CO-96", "CO-197"], "2024-05-01");
+
+    expect(undated).toMatchObject({ effective_date: null, date_note: UNDATED_CODE_NOTE });
+    expect(dated).toMatchObject({ active_on_date: true });
+    expect(dated).not.toHaveProperty("date_note");
+  });
+
+  it("reports a code outside the bundled subset as not found", () => {
+    const [result] = service.analyzeCodes(["CO-999"]);
+
+    expect(result.found).toBe(false);
+    expect(result.explanation).toMatch(/not in the bundled CARC\/RARC subset/);
+  });
+});
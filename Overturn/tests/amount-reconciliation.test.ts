@@ -0,0 +1,140 @@
+/**
+ * Claim amount extraction and reconciliation tests.
+ *
+ * Tests:
+ *  - Billed, allowed, adjusted, paid and patient responsibility totals are read from EOB text
+ *  - A "Total ..." row wins over repeated line-level labels
+ *  - billed − adjustments = paid + patient responsibility balances within a cent
+ *  - A gap is reported as a likely payer error; allowed is the fallback check
+ *  - Missing amounts give an incomplete result naming them
+ */
+
+import fs from "node:fs";
+
+import { describe, it, expect } from "vitest";
+
+import { DenialAnalysisService } from "../src/services/denial-analysis.service.js";
+import { RegexDenialParsingService } from "../src/services/regex-denial-parsing.service.js";
+
+const SAMPLE_EOB = fs.readFileSync(new URL("./fixtures/sample-eob.txt", import.meta.url), "utf8");
+
+describe("amount extraction", () => {
+  const parser = new RegexDenialParsingService();
+
+  it("reads the claim totals from an EOB", () => {
+    expect(parser.parseFromRawText(SAMPLE_EOB).amounts).toEqual({
+      billed: 380,
+      allowed: 180,
+      paid: 150,
+      adjustments: 200,
+      patient_responsibility: 30,
+    });
+  });
+
+  it("prefers a total row over repeated labels", () => {
+    const parsed = parser.parseFromRawText(
+      ["Paid: $40.00", "Paid: $110.00", "Total Paid: $150.00"].join("\n")
+    );
+
+    expect(parsed.amounts.paid).toBe(150);
+    expect(parsed.field_evidence.amounts.paid.confidence).toBeGreaterThan(0.8);
+  });
+});
+
+describe("DenialAnalysisService.reconcileAmounts", () => {
+  const analysis = new DenialAnalysisService();
+
+  it("balances billed minus adjustments against paid plus patient responsibility", () => {
+    expect(
+      analysis.reconcileAmounts({
+        billed: 380,
+        allowed: 180,
+        paid: 150,
+        adjustments: 200,
+        patient_responsibility: 30,
+      })
+    ).toMatchObject({
+      status: "balanced",
+      check: "billed_minus_adjustments",
+      expected: 180,
+      actual: 180,
+      difference: 0,
+      likely_payer_error: false,
+    });
+  });
+
+  it("ignores rounding differences of a cent", () => {
+    expect(
+      analysis.reconcileAmounts({
+        billed: 100.1,
+        allowed: null,
+        paid: 60.03,
+        adjustments: 20.06,
+        patient_responsibility: 20,
+      }).status
+    ).toBe("balanced");
+  });
+
+  it("flags a gap as a likely payer posting error", () => {
+    const result = analysis.reconcileAmounts({
+      billed: 380,
+      allowed: null,
+      paid: 120,
+      adjustments: 200,
+      patient_responsibility: 30,
+    });
+
+    expect(result).toMatchObject({
+      status: "mismatch",
+      expected: 180,
+      actual: 150,
+      difference: 30,
+      likely_payer_error: true,
+    });
+    expect(result.message).toMatch(/difference 30\.00/);
+  });
+
+  it("falls back to the allowed amount when adjustments are missing", () => {
+    expect(
+      analysis.reconcileAmounts({
+        billed: 380,
+        allowed: 180,
+        paid: 150,
+        adjustments: null,
+        patient_responsibility: 30,
+      })
+    ).toMatchObject({ status: "balanced", check: "allowed" });
+  });
+
+  it("reports which amounts are missing", () => {
+    const result = analysis.reconcileAmounts({
+      billed: 380,
+      allowed: null,
+      paid: 150,
+      adjustments: null,
+      patient_responsibility: null,
+    });
+
+    expect(result.status).toBe("incomplete");
+    expect(result.message).toBe(
+      "Not enough amounts to reconcile; missing allowed, adjustments, patient_responsibility."
+    );
+  });
+
+  it("reconciles each service line", () => {
+    const [line] = analysis.analyzeServiceLines([
+      {
+        line_number: 1,
+        procedure_code: "97110",
+        modifiers: [],
+        units: 2,
+        service_date: "2024-03-04",
+        amounts: { billed: 200, allowed: 180, paid: 150, adjustments: 20, patient_responsibility: 20 },
+        denial_codes: ["CO-45"],
+        remark_codes: [],
+      },
+    ]);
+
+    expect(line.amount_reconciliation).toMatchObject({ status: "mismatch", difference: 10 });
+  });
+});
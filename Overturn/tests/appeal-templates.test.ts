@@ -0,0 +1,76 @@
+/**
+ * Appeal template selection tests.
+ *
+ * Tests:
+ *  - An explicit template_id wins; an unknown one throws
+ *  - An explicit denial_category wins over CARC matching
+ *  - Adjustment-only CARCs (45, 59, 131) never beat a real denial code
+ *  - Medical necessity and authorization CARCs get their own templates
+ *  - CARC categories are the fallback, then the general template
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  AppealGenerationService,
+  type AppealDraftInput,
+} from "../src/services/appeal-generation.service.js";
+
+const draftInput = (overrides: Partial<AppealDraftInput>): AppealDraftInput => ({
+  original_claim_id: "CLM2024001",
+  denial_reason: "Not medically necessary.",
+  clinical_justification: "Physical therapy was required after surgery.",
+  ...overrides,
+}) as AppealDraftInput;
+
+describe("AppealGenerationService.selectTemplate", () => {
+  const service = new AppealGenerationService("");
+  const select = (overrides: Partial<AppealDraftInput>) =>
+    service.selectTemplate(draftInput(overrides)).id;
+
+  it("uses an explicit template_id", () => {
+    expect(select({ template_id: "eligibility", denial_codes: ["CO-50"] })).toBe("eligibility");
+    expect(() => select({ template_id: "nope" })).toThrow(/Unknown appeal template 'nope'/);
+  });
+
+  it("prefers the denial category over a CARC template", () => {
+    expect(
+      select({ denial_codes: ["CO-45", "CO-50"], denial_category: "medical_necessity" })
+    ).toBe("medical_necessity");
+    expect(select({ denial_codes: ["CO-16"], denial_category: "authorization" })).toBe(
+      "prior_authorization"
+    );
+  });
+
+  it("ranks contractual adjustments after denial codes", () => {
+    expect(select({ denial_codes: ["CO-45", "CO-50"] })).toBe("medical_necessity");
+    expect(select({ denial_codes: ["CO-59", "CO-96"] })).toBe("non_covered");
+    expect(select({ denial_codes: ["CO-131", "CO-16"] })).toBe("missing_information");
+    expect(select({ denial_codes: ["CO-45"] })).toBe("fee_schedule_underpayment");
+  });
+
+  it("falls back to a CARC's category when the code has no template", () => {
+    expect(select({ denial_codes: ["CO-35"] })).toBe("non_covered");
+  });
+
+  it("ignores a category without a template and uses the codes", () => {
+    expect(select({ denial_codes: ["CO-22"], denial_category: "coding" })).toBe(
+      "coordination_of_benefits"
+    );
+  });
+
+  it("uses the general template when nothing matches", () => {
+    expect(select({ denial_codes: ["N130"] })).toBe("general");
+    expect(select({})).toBe("general");
+  });
+
+  it("fills the medical necessity template in the draft", () => {
+    const draft = service.generateAppealDraft(
+      draftInput({ denial_codes: ["CO-45", "CO-50"], denial_category: "medical_necessity" })
+    );
+
+    expect(draft.template_id).toBe("medical_necessity");
+    expect(draft.markdown).toContain("# Medical Necessity Appeal - Claim CLM2024001");
+    expect(draft.markdown).toContain("Letter of medical necessity from the treating provider");
+  });
+});
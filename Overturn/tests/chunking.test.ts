@@ -0,0 +1,89 @@
+/**
+ * Page chunking and multi-chunk LLM merge tests.
+ *
+ * Tests:
+ *  - splitPages finds pdf-parse page markers; unmarked text is one page
+ *  - chunkPages groups whole pages and splits an oversized page at line breaks
+ *  - Chunks cover the text with no gaps
+ *  - Per-chunk LLM parses merge: lists are deduplicated, scalars take the majority value
+ *  - chunking.field_pages names the pages that supplied each field
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { LlmDenialParsingService } from "../src/services/llm-denial-parsing.service.js";
+import { MockLlmProvider } from "../src/services/llm-providers.service.js";
+import { chunkPages, joinPageTexts, splitPages } from "../src/utils/pages.js";
+
+const page = (label: string, length: number) =>
+  `${label}\n${"x".repeat(length - label.length - 1)}`;
+
+describe("splitPages", () => {
+  it("reads page numbers from the page markers", () => {
+    const text = joinPageTexts(["first", "second", "third"]);
+
+    expect(splitPages(text).map((item) => item.page_number)).toEqual([1, 2, 3]);
+  });
+
+  it("treats unmarked text as a single page", () => {
+    expect(splitPages("no markers here")).toEqual([{ page_number: 1, start: 0, end: 15 }]);
+  });
+});
+
+describe("chunkPages", () => {
+  it("groups whole pages up to the size limit", () => {
+    const text = joinPageTexts([page("PAGE ONE", 300), page("PAGE TWO", 300), page("PAGE THREE", 300)]);
+    const chunks = chunkPages(text, 700);
+
+    expect(chunks.map((chunk) => chunk.pages)).toEqual([[1, 2], [3]]);
+    expect(chunks[1].text).toContain("PAGE THREE");
+  });
+
+  it("splits a page longer than the limit at line breaks without dropping text", () => {
+    const lines = Array.from({ length: 40 }, (_, index) => `line ${index} ${"y".repeat(40)}`);
+    const text = lines.join("\n");
+    const chunks = chunkPages(text, 500);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.pages.join() === "1")).toBe(true);
+    expect(chunks.every((chunk) => chunk.text.length <= 500)).toBe(true);
+    expect(chunks.slice(0, -1).every((chunk) => chunk.text.endsWith("\n"))).toBe(true);
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe(text);
+  });
+});
+
+describe("LlmDenialParsingService chunk merge", () => {
+  const pageTexts = [
+    `Claim Number: CLM2024001\nDenied CO-50\n${"a".repeat(400)}`,
+    `Claim Number: CLM2024001\nAlso CO-50 and CO-97\n${"b".repeat(400)}`,
+    `Claim # CLM2024999\nRemark N130\n${"c".repeat(400)}`,
+  ];
+  const responses: Record<string, object> = {
+    "1": { claim_id: "CLM2024001", denial_codes: ["CO-50"] },
+    "2": { claim_id: "CLM2024001", denial_codes: ["CO-50", "CO-97"] },
+    "3": { claim_id: "CLM2024999", remark_codes: ["N130"] },
+  };
+  const perPageProvider = () =>
+    new MockLlmProvider((request) => {
+      const pageNumber = /-- (\d) of 3 --/.exec(request.user)?.[1];
+      return JSON.stringify(responses[pageNumber ?? ""] ?? {});
+    });
+
+  it("parses each chunk and merges lists and scalars", async () => {
+    const provider = perPageProvider();
+    const service = new LlmDenialParsingService([provider], 600, "redact");
+
+    const parsed = await service.parseFromRawText(joinPageTexts(pageTexts));
+
+    expect(provider.requests).toHaveLength(3);
+    expect(parsed.chunking.chunk_count).toBe(3);
+    expect(parsed.claim_id).toBe("CLM2024001");
+    expect(parsed.denial_codes).toEqual(["CO-50", "CO-97"]);
+    expect(parsed.remark_codes).toEqual(["N130"]);
+    expect(parsed.chunking.field_pages).toMatchObject({
+      claim_id: [1, 2],
+      denial_codes: [1, 2],
+      remark_codes: [3],
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * 277CA claim acknowledgment parsing tests against tests/fixtures/sample-277ca.edi.
+ *
+ * Tests:
+ *  - Receiver-level STC segments become batch statuses
+ *  - STC category, status and entity codes map to a disposition per claim
+ *  - A7 rejections (claim or service line) set needs_corrected_resubmission
+ *  - Status codes outside the bundled subset are flagged with status_code_found
+ *  - A wrong SE segment count is reported as a warning
+ */
+
+import fs from "node:fs";
+
+import { describe, it, expect } from "vitest";
+
+import { ClaimAcknowledgmentParsingService } from "../src/services/claim-acknowledgment-parsing.service.js";
+
+const SAMPLE_277CA = fs.readFileSync(
+  new URL("./fixtures/sample-277ca.edi", import.meta.url),
+  "utf8"
+);
+
+describe("ClaimAcknowledgmentParsingService", () => {
+  const service = new ClaimAcknowledgmentParsingService();
+
+  it("reads receiver-level statuses as batch statuses", () => {
+    const result = service.parse(SAMPLE_277CA);
+
+    expect(result.warnings).toEqual([]);
+    expect(result.batch_statuses).toEqual([
+      expect.objectContaining({
+        category_code: "A1",
+        status_code: "19",
+        entity_code: "PR",
+        entity: "Payer",
+        disposition: "acknowledged",
+        level: "receiver",
+      }),
+    ]);
+  });
+
+  it("marks an A2 claim as accepted with no resubmission", () => {
+    const [accepted] = service.parse(SAMPLE_277CA).claims;
+
+    expect(accepted).toMatchObject({
+      patient_control_number: "PCN1001",
+      payer_claim_control_number: "CLM2024001",
+      member_id: "XYZ123456789",
+      billing_provider: { name: "SUNRISE PHYSICAL THERAPY", npi: "1234567893" },
+      total_charge_amount: 380,
+      service_date: "2024-03-04",
+      disposition: "accepted",
+      needs_corrected_resubmission: false,
+    });
+    expect(accepted.statuses[0]).toMatchObject({
+      category_code: "A2",
+      status_code: "20",
+      status_code_found: true,
+      effective_date: "2024-03-16",
+    });
+  });
+
+  it("requires a corrected claim for an A7 front-end rejection", () => {
+    const [, rejected] = service.parse(SAMPLE_277CA).claims;
+
+    expect(rejected).toMatchObject({
+      patient_control_number: "PCN1002",
+      disposition: "rejected",
+      needs_corrected_resubmission: true,
+    });
+    expect(rejected.statuses[0]).toMatchObject({
+      category_code: "A7",
+      status_code: "562",
+      entity: "Billing Provider",
+      requires_corrected_resubmission: true,
+    });
+    expect(rejected.service_lines).toEqual([
+      expect.objectContaining({
+        procedure_code: "99213",
+        modifiers: ["25"],
+        statuses: [expect.objectContaining({ category_code: "A7", status_code: "454" })],
+      }),
+    ]);
+    expect(rejected.next_step).toMatch(/corrected claim/);
+  });
+
+  it("rejects a claim when only a service line is rejected", () => {
+    const lineOnly = SAMPLE_277CA.replace("STC*A7:562:85*", "STC*A2:20*");
+    const [, claim] = service.parse(lineOnly).claims;
+
+    expect(claim.statuses[0].disposition).toBe("accepted");
+    expect(claim.disposition).toBe("rejected");
+    expect(claim.needs_corrected_resubmission).toBe(true);
+  });
+
+  it("flags status codes missing from the bundled subset", () => {
+    const result = service.parse(SAMPLE_277CA.replace("STC*A2:20*", "STC*A2:9999*"));
+
+    expect(result.claims[0].statuses[0]).toMatchObject({
+      status_code: "9999",
+      status_code_found: false,
+    });
+    expect(result.status_code_list.complete).toBe(false);
+  });
+
+  it("warns when the SE segment count is wrong", () => {
+    const result = service.parse(SAMPLE_277CA.replace("SE*30*", "SE*31*"));
+
+    expect(result.warnings).toContain("Transaction 0001 declares 31 segments but contains 30.");
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * DenialCase export tests.
+ *
+ * Tests:
+ *  - Required attachments are read from a list under an "include with your appeal" line
+ *  - ...or from a single sentence naming them, each item grounded in a span
+ *  - A letter that names no attachments does not list them as missing information
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { DenialAnalysisService } from "../src/services/denial-analysis.service.js";
+import { DenialCaseExportService } from "../src/services/denial-case-export.service.js";
+import { RegexDenialParsingService } from "../src/services/regex-denial-parsing.service.js";
+
+const exportCase = (rawText: string) => {
+  const parsedFields = new RegexDenialParsingService().parseFromRawText(rawText);
+  const classification = new DenialAnalysisService().classifyDenial({
+    denialCodes: parsedFields.denial_codes,
+  });
+  return new DenialCaseExportService().toDenialCase({
+    rawText,
+    filename: "/tmp/letter.txt",
+    mimeType: "text/plain",
+    parsedFields,
+    classification,
+  });
+};
+
+describe("DenialCaseExportService requiredAttachments", () => {
+  it("reads the list under an include-with-your-appeal line", () => {
+    const denialCase = exportCase(
+      [
+        "Claim Number: CLM2024001",
+        "Denied CO-50.",
+        "Please include the following with your appeal:",
+        "- A copy of this letter",
+        "- Medical records for the date of service",
+        "2. Letter of medical necessity",
+        "",
+        "Mail appeals to PO Box 100.",
+      ].join("\n")
+    );
+
+    expect(denialCase.requiredAttachments.value).toEqual([
+      "A copy of this letter",
+      "Medical records for the date of service",
+      "Letter of medical necessity",
+    ]);
+    expect(denialCase.requiredAttachments.spans.map((span) => span.snippet)).toEqual(
+      denialCase.requiredAttachments.value
+    );
+    expect(denialCase.requiredAttachments.spans[0].label).toBe("requiredAttachments");
+    expect(denialCase.missingInformation.value).not.toContain("requiredAttachments");
+  });
+
+  it("splits the attachments named in a sentence", () => {
+    const denialCase = exportCase(
+      "Claim Number: CLM2024001\nDenied CO-50. Please include a copy of this letter, the operative report and the physician's notes with your appeal."
+    );
+
+    expect(denialCase.requiredAttachments.value).toEqual([
+      "a copy of this letter",
+      "the operative report",
+      "the physician's notes",
+    ]);
+  });
+
+  it("does not report attachments as missing when the letter names none", () => {
+    const denialCase = exportCase(
+      "Claim Number: CLM2024001\nDenied CO-50. Submit your appeal to the address below."
+    );
+
+    expect(denialCase.requiredAttachments.value).toBeNull();
+    expect(denialCase.missingInformation.value).not.toContain("requiredAttachments");
+    expect(denialCase.missingInformation.value).toContain("memberId");
+  });
+});
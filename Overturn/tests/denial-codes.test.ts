@@ -0,0 +1,80 @@
+/**
+ * Regex denial and remark code extraction tests.
+ *
+ * Tests:
+ *  - Group codes are read with or without a dash, including CR, in running text and on lines
+ *  - Undotted ICD-10 categories (M54, N18) in a diagnosis list are not remark codes
+ *  - A code the diagnosis extractor claimed is not a remark code elsewhere either
+ *  - Remark codes outside a diagnosis context are still read
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { RegexDenialParsingService } from "../src/services/regex-denial-parsing.service.js";
+
+describe("RegexDenialParsingService denial codes", () => {
+  const parser = new RegexDenialParsingService();
+
+  it("reads group codes written with a space instead of a dash", () => {
+    expect(parser.parseFromRawText("Denied per CO 97 and CR 18.").denial_codes).toEqual([
+      "CO-97",
+      "CR-18",
+    ]);
+  });
+
+  it("formats every spelling of a group code the same way", () => {
+    expect(parser.parseFromRawText("Codes: co-45, PR2, OA - 23").denial_codes).toEqual(
+      expect.arrayContaining(["CO-45", "PR-2", "OA-23"])
+    );
+  });
+
+  it("reads the same codes in running text and on service lines", () => {
+    const parsed = parser.parseFromRawText(
+      ["DOS         Code    Billed", "03/04/2024  97110   $200.00  CR 18 PI-104"].join("\n")
+    );
+
+    expect(parsed.service_lines[0].denial_codes).toEqual(["CR-18", "PI-104"]);
+    expect(parsed.denial_codes).toEqual(["CR-18", "PI-104"]);
+  });
+
+  it("does not read a group code followed by a year", () => {
+    expect(parser.parseFromRawText("PR 2024 annual report").denial_codes).toEqual([]);
+  });
+});
+
+describe("RegexDenialParsingService remark codes", () => {
+  const parser = new RegexDenialParsingService();
+
+  it("keeps ICD-10 categories in a diagnosis list out of the remark codes", () => {
+    const parsed = parser.parseFromRawText(
+      "Diagnosis: M54, N18\nDenied CO-50. Remark code N130 applies."
+    );
+
+    expect(parsed.diagnosis_codes).toEqual(["M54", "N18"]);
+    expect(parsed.remark_codes).toEqual(["N130"]);
+  });
+
+  it("ignores codes after an unpunctuated Dx label", () => {
+    const parsed = parser.parseFromRawText("Dx M54 N186\nRemarks: M25, MA130");
+
+    expect(parsed.remark_codes).toEqual(["M25", "MA130"]);
+  });
+
+  it("does not read a claimed diagnosis code as a remark code later in the text", () => {
+    const parsed = parser.parseFromRawText(
+      "ICD-10 codes: E11.9; N18\nThe claim for N18 was denied. Remark N130."
+    );
+
+    expect(parsed.remark_codes).toEqual(["N130"]);
+  });
+
+  it("keeps diagnosis codes out of service line remark codes", () => {
+    const parsed = parser.parseFromRawText(
+      ["Diagnosis: M54", "DOS         Code    Billed", "03/04/2024  97110   $200.00  CO-50 N130 M54"].join(
+        "\n"
+      )
+    );
+
+    expect(parsed.service_lines[0].remark_codes).toEqual(["N130"]);
+  });
+});
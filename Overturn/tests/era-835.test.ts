@@ -0,0 +1,122 @@
+/**
+ * 835 remittance parsing tests against tests/fixtures/sample-835.edi.
+ *
+ * Tests:
+ *  - ISA/GS/ST envelopes are read and a well-formed interchange has no warnings
+ *  - CLP/NM1/SVC/CAS/LQ/AMT map onto the claim and its service lines
+ *  - Adjustments sum the non-PR CAS groups; patient responsibility comes from CLP05
+ *  - The payer ID comes from REF*2U, never from TRN03
+ *  - A wrong SE segment count is reported as a warning
+ */
+
+import fs from "node:fs";
+
+import { describe, it, expect } from "vitest";
+
+import { Era835ParsingService } from "../src/services/era-835-parsing.service.js";
+
+const SAMPLE_835 = fs.readFileSync(new URL("./fixtures/sample-835.edi", import.meta.url), "utf8");
+
+describe("Era835ParsingService", () => {
+  const service = new Era835ParsingService();
+
+  it("reads the interchange and transaction envelopes", () => {
+    const result = service.parse(SAMPLE_835);
+
+    expect(result.warnings).toEqual([]);
+    expect(result.interchange).toMatchObject({
+      sender_id: "ACMEHEALTH",
+      receiver_id: "SUNRISEPT",
+      control_number: "000000101",
+      usage: "test",
+    });
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0]).toMatchObject({
+      control_number: "0001",
+      functional_group_control_number: "101",
+      version: "005010X221A1",
+      payer: { name: "ACME HEALTH PLAN", id: "87726" },
+      payee: { name: "SUNRISE PHYSICAL THERAPY", npi: "1234567893", tax_id: "123456789" },
+      payment: { total_amount: 150, trace_number: "EFT0001" },
+      claim_count: 1,
+    });
+  });
+
+  it("maps claim and service line segments", () => {
+    const [{ claim }] = service.parse(SAMPLE_835).claims;
+
+    expect(claim).toMatchObject({
+      patient_control_number: "PCN1001",
+      charge_amount: 380,
+      paid_amount: 150,
+      patient_responsibility_amount: 30,
+      payer_claim_control_number: "CLM2024001",
+      patient_name: "Jane Doe",
+      member_id: "XYZ123456789",
+      rendering_provider_npi: "1234567893",
+    });
+    expect(claim.service_lines).toHaveLength(2);
+    expect(claim.service_lines[0]).toMatchObject({
+      procedure_code: "97110",
+      modifiers: ["GP"],
+      charge_amount: 200,
+      paid_amount: 150,
+      allowed_amount: 180,
+      units_paid: 2,
+      service_date: "2024-03-04",
+      adjustments: [
+        { group_code: "CO", reason_code: "45", amount: 20 },
+        { group_code: "PR", reason_code: "2", amount: 30 },
+      ],
+    });
+    expect(claim.service_lines[1]).toMatchObject({
+      procedure_code: "97140",
+      modifiers: ["59"],
+      allowed_amount: null,
+      adjustments: [{ group_code: "CO", reason_code: "50", amount: 180 }],
+      remark_codes: ["N130"],
+    });
+  });
+
+  it("keeps patient responsibility out of the adjustment total", () => {
+    const [{ parsed_fields }] = service.parse(SAMPLE_835).claims;
+
+    expect(parsed_fields.denial_codes).toEqual(["CO-45", "PR-2", "CO-50"]);
+    expect(parsed_fields.remark_codes).toEqual(["N130"]);
+    expect(parsed_fields.amounts).toEqual({
+      billed: 380,
+      allowed: null,
+      paid: 150,
+      adjustments: 200,
+      patient_responsibility: 30,
+    });
+    expect(parsed_fields.service_lines[0].amounts).toMatchObject({
+      adjustments: 20,
+      patient_responsibility: 30,
+    });
+    expect(parsed_fields.payer_name).toBe("ACME HEALTH PLAN");
+    expect(parsed_fields.provider_name).toBe("SUNRISE PHYSICAL THERAPY");
+  });
+
+  it("takes the payer ID from REF*2U rather than the TRN originator", () => {
+    const [{ parsed_fields }] = service.parse(SAMPLE_835).claims;
+    const payerIds = parsed_fields.identifiers.filter((identifier) => identifier.label === "payer_id");
+
+    expect(payerIds).toEqual([{ label: "payer_id", value: "87726" }]);
+    expect(JSON.stringify(parsed_fields.identifiers)).not.toContain("512345678");
+  });
+
+  it("does not use TRN03 as the payer ID when no payer ID segment is present", () => {
+    const withoutRef = SAMPLE_835.replace(/REF\*2U\*87726~\s*/, "").replace("SE*25*", "SE*24*");
+    const result = service.parse(withoutRef);
+
+    expect(result.warnings).toEqual([]);
+    expect(result.transactions[0].payer.id).toBeNull();
+  });
+
+  it("warns when the SE segment count is wrong", () => {
+    const result = service.parse(SAMPLE_835.replace("SE*25*", "SE*30*"));
+
+    expect(result.warnings).toContain("Transaction 0001 declares 30 segments but contains 25.");
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Regex + LLM per-field merge tests.
+ *
+ * Tests:
+ *  - Values both parsers agree on are sourced from "both"
+ *  - A value found in the text beats one that is not, and the conflict is reported
+ *  - Denial codes merge on group and code; a group conflict keeps the grounded code
+ *  - A bare CARC backs up the grouped code instead of being listed twice
+ *  - One-sided codes not found in the text are dropped and reported
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { DenialFieldMergeService } from "../src/services/denial-field-merge.service.js";
+import { LlmDenialParsingService } from "../src/services/llm-denial-parsing.service.js";
+import { MockLlmProvider } from "../src/services/llm-providers.service.js";
+import { RegexDenialParsingService } from "../src/services/regex-denial-parsing.service.js";
+
+const DENIAL_TEXT = [
+  "Claim Number: CLM2024001",
+  "Date: 03/15/2024",
+  "Adjustment codes: CO-45, CO-50. Contractual amount under 45.",
+  "Remark: N130",
+  "Total Billed: $380.00",
+].join("\n");
+
+const mergeWith = async (llmResponse: Record<string, unknown>) => {
+  const regex = new RegexDenialParsingService().parseFromRawText(DENIAL_TEXT);
+  const llm = await new LlmDenialParsingService(
+    [new MockLlmProvider(JSON.stringify(llmResponse))],
+    12000,
+    "redact"
+  ).parseFromRawText(DENIAL_TEXT);
+  return new DenialFieldMergeService().merge(regex, llm);
+};
+
+describe("DenialFieldMergeService", () => {
+  it("marks agreeing values as coming from both parsers", async () => {
+    const result = await mergeWith({
+      claim_id: "CLM2024001",
+      denial_codes: ["CO-45", "CO-50"],
+      remark_codes: ["N130"],
+      amounts: { billed: 380 },
+    });
+
+    expect(result.fields.claim_id).toBe("CLM2024001");
+    expect(result.field_sources).toMatchObject({
+      claim_id: "both",
+      "amounts.billed": "both",
+      denial_codes: "both",
+      remark_codes: "both",
+    });
+    expect(result.field_disagreements).toEqual([]);
+  });
+
+  it("keeps the value found in the text when the parsers disagree", async () => {
+    const result = await mergeWith({ claim_id: "CLM9999999" });
+
+    expect(result.fields.claim_id).toBe("CLM2024001");
+    expect(result.field_disagreements).toContainEqual(
+      expect.objectContaining({
+        field: "claim_id",
+        regex_value: "CLM2024001",
+        llm_value: "CLM9999999",
+        chosen_source: "regex",
+        reason: "Only the regex value was found in the document text.",
+      })
+    );
+  });
+
+  it("keeps the grounded group code when the parsers disagree on it", async () => {
+    const result = await mergeWith({ denial_codes: ["PR-45", "CO-50"] });
+
+    expect(result.fields.denial_codes).toEqual(["CO-45", "CO-50"]);
+    expect(result.field_disagreements).toContainEqual(
+      expect.objectContaining({
+        field: "denial_codes",
+        regex_value: ["CO-45"],
+        llm_value: ["PR-45"],
+        chosen_value: "CO-45",
+        chosen_source: "regex",
+      })
+    );
+  });
+
+  it("does not list a bare CARC next to its grouped form", async () => {
+    const result = await mergeWith({ denial_codes: ["CO-50"] });
+
+    expect(result.fields.denial_codes).toEqual(["CO-45", "CO-50"]);
+  });
+
+  it("drops one-sided codes that are not in the text", async () => {
+    const result = await mergeWith({ remark_codes: ["N130", "MA130"] });
+
+    expect(result.fields.remark_codes).toEqual(["N130"]);
+    expect(result.field_disagreements).toContainEqual(
+      expect.objectContaining({
+        field: "remark_codes",
+        chosen_value: ["N130"],
+        reason: "Kept codes both parsers agree on or that were found in the text; dropped MA130.",
+      })
+    );
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Bundled ICD-10-CM subset validation tests.
+ *
+ * Tests:
+ *  - Billable codes and header codes get their descriptions and status
+ *  - Codes are normalized before lookup (case, missing dot)
+ *  - Malformed codes are flagged
+ *  - Well-formed codes outside the subset are not_in_bundled_list, not invalid
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { Icd10CodeDictionary } from "../src/services/icd10-code-dictionary.service.js";
+
+describe("Icd10CodeDictionary.validate", () => {
+  const dictionary = new Icd10CodeDictionary();
+
+  it("reports billable and header codes with their descriptions", () => {
+    expect(dictionary.validate("M17.11")).toMatchObject({ status: "billable", billable: true });
+    expect(dictionary.validate("M17.1")).toMatchObject({
+      status: "non_billable_header",
+      billable: false,
+    });
+    expect(dictionary.validate("M17.1").description).toBeTruthy();
+  });
+
+  it("normalizes the code before looking it up", () => {
+    expect(dictionary.validate("m1711")).toMatchObject({
+      code: "M17.11",
+      input_code: "m1711",
+      status: "billable",
+    });
+  });
+
+  it("flags malformed codes", () => {
+    expect(dictionary.validate("4A1.9").status).toBe("malformed");
+  });
+
+  it("does not call a code outside the bundled subset invalid", () => {
+    const validation = dictionary.validate("Z99.89");
+
+    expect(validation).toMatchObject({ status: "not_in_bundled_list", billable: null });
+    expect(validation.note).toMatch(/validity and billable status are unknown/);
+  });
+});
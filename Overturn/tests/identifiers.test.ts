@@ -0,0 +1,114 @@
+/**
+ * Provider and payer identifier validation tests.
+ *
+ * Tests:
+ *  - NPI check digit (Luhn with the 80840 prefix) and 1/2 leading digit
+ *  - EIN prefixes and SSN never-issued ranges
+ *  - Identifier labels map to NPI, TIN and payer ID checks
+ *  - OCR letter/digit confusions are suggested as corrections
+ *  - Invalid identifiers are tied to a CARC 16 denial
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { DenialAnalysisService } from "../src/services/denial-analysis.service.js";
+import {
+  identifierTypeOf,
+  isValidNpi,
+  ocrDigitCorrection,
+  payerIdFormatIssue,
+  tinFormatIssue,
+} from "../src/utils/identifiers.js";
+
+describe("isValidNpi", () => {
+  it("accepts NPIs whose check digit matches", () => {
+    expect(isValidNpi("1234567893")).toBe(true);
+    expect(isValidNpi("1245319599")).toBe(true);
+  });
+
+  it("rejects a wrong check digit, a bad leading digit or the wrong length", () => {
+    expect(isValidNpi("1234567890")).toBe(false);
+    expect(isValidNpi("3234567893")).toBe(false);
+    expect(isValidNpi("123456789")).toBe(false);
+    expect(isValidNpi("12345678931")).toBe(false);
+  });
+});
+
+describe("tinFormatIssue", () => {
+  it("accepts EINs with or without a dash", () => {
+    expect(tinFormatIssue("12-3456789")).toBeNull();
+    expect(tinFormatIssue("123456789")).toBeNull();
+  });
+
+  it("rejects never-assigned EIN prefixes", () => {
+    expect(tinFormatIssue("07-1234567")).toBe("Not a valid EIN: prefix 07 has never been assigned.");
+  });
+
+  it("checks SSN-formatted TINs against never-issued ranges", () => {
+    expect(tinFormatIssue("123-45-6789")).toBeNull();
+    expect(tinFormatIssue("666-45-6789")).toMatch(/never issued/);
+    expect(tinFormatIssue("123-00-6789")).toMatch(/never issued/);
+  });
+
+  it("requires nine digits", () => {
+    expect(tinFormatIssue("12-345678")).toBe("A TIN must have exactly nine digits.");
+  });
+});
+
+describe("identifier helpers", () => {
+  it("maps labels to identifier types", () => {
+    expect(identifierTypeOf("rendering_provider_npi")).toBe("npi");
+    expect(identifierTypeOf("tax_id")).toBe("tin");
+    expect(identifierTypeOf("payer_id")).toBe("payer_id");
+    expect(identifierTypeOf("member_id")).toBeNull();
+  });
+
+  it("checks payer ID format", () => {
+    expect(payerIdFormatIssue("87726")).toBeNull();
+    expect(payerIdFormatIssue("ACME HEALTH")).toBe("A payer ID is 2-10 letters or digits.");
+  });
+
+  it("replaces letters OCR confuses with digits", () => {
+    expect(ocrDigitCorrection("12345678S3")).toBe("1234567853");
+    expect(ocrDigitCorrection("1234567893")).toBeNull();
+  });
+});
+
+describe("DenialAnalysisService.validateIdentifiers", () => {
+  const analysis = new DenialAnalysisService();
+
+  it("suggests an OCR correction that passes the check digit", () => {
+    const result = analysis.validateIdentifiers([{ label: "npi", value: "I234567893" }]);
+
+    expect(result.checks).toEqual([
+      expect.objectContaining({ type: "npi", valid: false, suggested_value: "1234567893" }),
+    ]);
+  });
+
+  it("links invalid identifiers to a CARC 16 denial", () => {
+    const result = analysis.validateIdentifiers(
+      [
+        { label: "billing_provider_npi", value: "1234567890" },
+        { label: "tax_id", value: "12-3456789" },
+        { label: "member_id", value: "XYZ123456789" },
+      ],
+      ["CO-16"]
+    );
+
+    expect(result.checks.map((check) => check.label)).toEqual(["billing_provider_npi", "tax_id"]);
+    expect(result.invalid_count).toBe(1);
+    expect(result.likely_carc_16_cause).toBe(true);
+    expect(result.note).toMatch(/explain the CARC 16 denial/);
+  });
+
+  it("passes valid identifiers without a CARC 16 link", () => {
+    const result = analysis.validateIdentifiers(
+      [{ label: "npi", value: "1234567893" }],
+      ["CO-16"]
+    );
+
+    expect(result.invalid_count).toBe(0);
+    expect(result.likely_carc_16_cause).toBe(false);
+    expect(result.note).toBe("All provider and payer identifiers passed validation.");
+  });
+});
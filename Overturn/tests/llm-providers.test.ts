@@ -0,0 +1,165 @@
+/**
+ * LLM provider selection and fallback tests.
+ *
+ * Tests:
+ *  - LLM_PROVIDERS sets the fallback order; unconfigured providers are skipped
+ *  - USE_CLAUDE_PARSER=true puts anthropic first when LLM_PROVIDERS is unset
+ *  - A failing provider is reported in provider_fallbacks and the next one is used
+ *  - PHI_POLICY=block skips external providers but still runs local ones
+ *  - A hung OpenAI-compatible server times out as a provider failure
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { describe, it, expect } from "vitest";
+
+import {
+  MockLlmProvider,
+  OpenAiCompatibleProvider,
+  createLlmProvidersFromEnv,
+} from "../src/services/llm-providers.service.js";
+import { LlmDenialParsingService } from "../src/services/llm-denial-parsing.service.js";
+
+const DENIAL_TEXT = "Claim Number: CLM123456\nDenied: CO-50 not medically necessary.";
+const MODEL_RESPONSE = JSON.stringify({ claim_id: "CLM123456", denial_codes: ["CO-50"] });
+
+const failingProvider = (message: string, external = false) =>
+  new MockLlmProvider(() => {
+    throw new Error(message);
+  }, external);
+
+describe("createLlmProvidersFromEnv", () => {
+  const credentials = {
+    GEMINI_API_KEY: "gemini-key",
+    ANTHROPIC_API_KEY: "anthropic-key",
+    OPENAI_COMPATIBLE_BASE_URL: "http://localhost:11434/v1",
+    OPENAI_COMPATIBLE_MODEL: "llama3.1:8b",
+  };
+
+  it("uses gemini, anthropic, openai_compatible by default", () => {
+    expect(createLlmProvidersFromEnv(credentials).map((provider) => provider.name)).toEqual([
+      "gemini",
+      "anthropic",
+      "openai_compatible",
+    ]);
+  });
+
+  it("follows LLM_PROVIDERS and skips providers without credentials", () => {
+    const providers = createLlmProvidersFromEnv({
+      LLM_PROVIDERS: "openai_compatible, anthropic, gemini",
+      ANTHROPIC_API_KEY: "anthropic-key",
+      OPENAI_COMPATIBLE_BASE_URL: "http://localhost:11434/v1",
+      OPENAI_COMPATIBLE_MODEL: "llama3.1:8b",
+    });
+
+    expect(providers.map((provider) => provider.name)).toEqual([
+      "openai_compatible",
+      "anthropic",
+    ]);
+    expect(providers[0].external).toBe(false);
+  });
+
+  it("puts anthropic first for the legacy USE_CLAUDE_PARSER flag", () => {
+    const providers = createLlmProvidersFromEnv({ ...credentials, USE_CLAUDE_PARSER: "true" });
+    expect(providers.map((provider) => provider.name)).toEqual([
+      "anthropic",
+      "gemini",
+      "openai_compatible",
+    ]);
+  });
+
+  it("lets LLM_PROVIDERS win over USE_CLAUDE_PARSER", () => {
+    const providers = createLlmProvidersFromEnv({
+      ...credentials,
+      USE_CLAUDE_PARSER: "true",
+      LLM_PROVIDERS: "gemini",
+    });
+    expect(providers.map((provider) => provider.name)).toEqual(["gemini"]);
+  });
+
+  it("skips an OpenAI-compatible provider with a malformed base URL", () => {
+    const providers = createLlmProvidersFromEnv({
+      OPENAI_COMPATIBLE_BASE_URL: "not a url",
+      OPENAI_COMPATIBLE_MODEL: "llama3.1:8b",
+    });
+    expect(providers).toEqual([]);
+  });
+});
+
+describe("LlmDenialParsingService provider fallback", () => {
+  it("reports failed providers and returns the first successful parse", async () => {
+    const service = new LlmDenialParsingService(
+      [failingProvider("quota exceeded"), new MockLlmProvider(MODEL_RESPONSE)],
+      12000,
+      "redact"
+    );
+
+    const parsed = await service.parseFromRawText(DENIAL_TEXT);
+
+    expect(parsed.claim_id).toBe("CLM123456");
+    expect(parsed.denial_codes).toEqual(["CO-50"]);
+    expect(parsed.llm_provider).toEqual({ name: "mock", model: "mock" });
+    expect(parsed.provider_fallbacks).toEqual(["mock (mock): quota exceeded"]);
+  });
+
+  it("lists every failure when all providers fail", async () => {
+    const service = new LlmDenialParsingService(
+      [failingProvider("timeout"), new MockLlmProvider("not json")],
+      12000,
+      "redact"
+    );
+
+    await expect(service.parseFromRawText(DENIAL_TEXT)).rejects.toThrow(
+      /All LLM providers failed\. mock \(mock\): timeout; mock \(mock\): .*JSON/
+    );
+  });
+
+  it("never calls an external provider under PHI_POLICY=block", async () => {
+    const external = new MockLlmProvider(MODEL_RESPONSE, true);
+    const local = new MockLlmProvider(MODEL_RESPONSE);
+    const service = new LlmDenialParsingService([external, local], 12000, "block");
+
+    const parsed = await service.parseFromRawText(DENIAL_TEXT);
+
+    expect(external.requests).toHaveLength(0);
+    expect(local.requests).toHaveLength(1);
+    expect(parsed.provider_fallbacks).toHaveLength(1);
+    expect(parsed.provider_fallbacks[0]).toMatch(/PHI_POLICY/);
+    expect(parsed.phi_redaction.policy).toBe("block");
+  });
+
+  it("fails when the only provider is external and PHI_POLICY=block", async () => {
+    const external = new MockLlmProvider(MODEL_RESPONSE, true);
+    const service = new LlmDenialParsingService([external], 12000, "block");
+
+    await expect(service.parseFromRawText(DENIAL_TEXT)).rejects.toThrow(/PHI_POLICY/);
+    expect(external.requests).toHaveLength(0);
+  });
+});
+
+describe("OpenAiCompatibleProvider", () => {
+  it("times out a server that never responds and falls back", async () => {
+    const server = http.createServer(() => {});
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      const hung = new OpenAiCompatibleProvider(`http://localhost:${port}/v1`, "local", null, 200);
+      const service = new LlmDenialParsingService(
+        [hung, new MockLlmProvider(MODEL_RESPONSE)],
+        12000,
+        "redact"
+      );
+
+      const parsed = await service.parseFromRawText(DENIAL_TEXT);
+
+      expect(parsed.llm_provider.name).toBe("mock");
+      expect(parsed.provider_fallbacks).toEqual([
+        "openai_compatible (local): OpenAI-compatible endpoint did not respond within 200 ms",
+      ]);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+});
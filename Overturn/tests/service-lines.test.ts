@@ -0,0 +1,83 @@
+/**
+ * EOB service line table parsing tests.
+ *
+ * Tests:
+ *  - Amount columns are assigned from the header row, including units
+ *  - Letter and numeric modifiers are read after the procedure code
+ *  - A number under a units column is units, not a modifier
+ *  - Indented code-only continuation rows attach to the line above
+ *  - Without a header only the charge amount is trusted
+ */
+
+import fs from "node:fs";
+
+import { describe, it, expect } from "vitest";
+
+import { RegexDenialParsingService } from "../src/services/regex-denial-parsing.service.js";
+
+const SAMPLE_EOB = fs.readFileSync(new URL("./fixtures/sample-eob.txt", import.meta.url), "utf8");
+
+describe("RegexDenialParsingService service lines", () => {
+  const parser = new RegexDenialParsingService();
+
+  it("reads each line's codes, modifiers, units and amounts", () => {
+    const { service_lines } = parser.parseFromRawText(SAMPLE_EOB);
+
+    expect(service_lines).toEqual([
+      {
+        line_number: 1,
+        procedure_code: "97110",
+        modifiers: ["GP", "59"],
+        units: 2,
+        service_date: "2024-03-04",
+        amounts: { billed: 200, allowed: 180, paid: 150, adjustments: 20, patient_responsibility: 30 },
+        denial_codes: ["CO-45", "PR-2"],
+        remark_codes: [],
+      },
+      {
+        line_number: 2,
+        procedure_code: "99213",
+        modifiers: ["25"],
+        units: 1,
+        service_date: "2024-03-04",
+        amounts: { billed: 180, allowed: 0, paid: 0, adjustments: 180, patient_responsibility: 0 },
+        denial_codes: ["CO-50"],
+        remark_codes: ["N130"],
+      },
+    ]);
+  });
+
+  it("reads a lone number under a units column as units", () => {
+    const { service_lines } = parser.parseFromRawText(
+      ["DOS         Code    Units  Billed   Paid", "03/04/2024  97110   25     $500.00  $0.00"].join(
+        "\n"
+      )
+    );
+
+    expect(service_lines[0]).toMatchObject({ modifiers: [], units: 25 });
+  });
+
+  it("stops a continuation at a blank line", () => {
+    const { service_lines } = parser.parseFromRawText(
+      ["DOS         Code    Billed   Paid", "03/04/2024  97110   $200.00  $0.00", "", "            CO-50"].join(
+        "\n"
+      )
+    );
+
+    expect(service_lines[0].denial_codes).toEqual([]);
+  });
+
+  it("trusts only the charge when there is no header row", () => {
+    const { service_lines, field_evidence } = parser.parseFromRawText(
+      "03/04/2024 99213-25 $100.00 $80.00 CO-45"
+    );
+
+    expect(service_lines[0]).toMatchObject({
+      procedure_code: "99213",
+      modifiers: ["25"],
+      amounts: { billed: 100, allowed: null, paid: null },
+      denial_codes: ["CO-45"],
+    });
+    expect(field_evidence.service_lines[0].notes).toMatch(/No column header/);
+  });
+});
@@ -22,6 +22,7 @@ import {
   SourceSpan,
 } from "../types";
 import { letterId } from "../utils/hash";
+import { knownPhiForCase, redactorForPolicy } from "../utils/phi";
 import { retrieveForCase } from "../kb/retrieve";
 import { buildArgumentPlan } from "./plan";
 import { verifySections, collectMissingEvidence } from "./verify";
@@ -399,6 +400,14 @@ async function generateWithLLM(
   opts: GenerateOptions
 ): Promise<LetterSection[] | null> {
   if (!config.openaiApiKey) return null;
+  if (config.phiPolicy === "block") {
+    log("info", "PHI_POLICY=block — skipping LLM generation");
+    return null;
+  }
+
+  // Placeholders go out; the response is re-hydrated before citations are resolved.
+  const redactor = redactorForPolicy(knownPhiForCase(dc, userContext));
+  const protect = (text: string) => redactor?.redact(text) ?? text;
 
   try {
     // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -421,12 +430,12 @@ async function generateWithLLM(
 
     const client = new OpenAI.default({ apiKey: config.openaiApiKey });
 
-    const caseContext = formatDenialCaseForPrompt(dc);
+    const caseContext = protect(formatDenialCaseForPrompt(dc));
     const kbContext = chunks
       .slice(0, 10)
       .map(
         (c, i) =>
-          `[KB_CHUNK_${i}] DocType: ${c.meta.docType} | ChunkId: ${c.chunkId}\n${c.text}`
+          `[KB_CHUNK_${i}] DocType: ${c.meta.docType} | ChunkId: ${c.chunkId}\n${protect(c.text)}`
       )
       .join("\n\n---\n\n");
 
@@ -467,7 +476,7 @@ RETRIEVED KNOWLEDGE BASE:
 ${kbContext || "(no KB documents ingested — use NEEDS EVIDENCE placeholders)"}
 
 USER CONTEXT:
-${JSON.stringify(userContext, null, 2)}`;
+${protect(JSON.stringify(userContext, null, 2))}`;
 
     const response = await client.chat.completions.create({
       model: config.openaiModel,
@@ -482,7 +491,8 @@ ${JSON.stringify(userContext, null, 2)}`;
     const raw = response.choices[0]?.message?.content;
     if (!raw) return null;
 
-    const parsed = JSON.parse(raw) as {
+    const json: unknown = JSON.parse(raw);
+    const parsed = (redactor ? redactor.rehydrateValue(json) : json) as {
       sections: Array<{
         id: string;
         title: string;
@@ -1,3 +1,4 @@
+import { resolvePhiPolicy } from "@overturn/phi-redaction";
 import path from "path";
 
 function env(key: string, fallback: string): string {
@@ -22,11 +23,12 @@ export const config = {
   logLevel: env("LOG_LEVEL", "info"),
   storagePath: path.resolve(env("STORAGE_PATH", "./data")),
   maxFileMb: envInt("MAX_FILE_MB", 20),
-  enableOcrDefault: envBool("ENABLE_OCR_DEFAULT", false),
+  enableOcrDefault: envBool("ENABLE_OCR_DEFAULT", true),
   useEmbeddings: envBool("USE_EMBEDDINGS", false) && !!process.env.OPENAI_API_KEY,
   openaiApiKey: process.env.OPENAI_API_KEY ?? null,
   openaiModel: env("OPENAI_MODEL", "gpt-4o"),
   openaiEmbeddingModel: "text-embedding-3-small",
+  phiPolicy: resolvePhiPolicy(process.env.PHI_POLICY),
 } as const;
 
 export type Config = typeof config;
@@ -260,7 +260,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const warnings: string[] = [];
         const ingested = results.map((r) => {
           warnings.push(...r.warnings);
-          return { docId: r.docId, chunks: r.chunks };
+          return r.ocr
+            ? { docId: r.docId, chunks: r.chunks, ocr: r.ocr }
+            : { docId: r.docId, chunks: r.chunks };
         });
 
         return {
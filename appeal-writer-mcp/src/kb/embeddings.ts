@@ -1,13 +1,16 @@
 import { config, log } from "../config";
+import { redactorForPolicy } from "../utils/phi";
 
 export type EmbeddingVector = number[];
 
 /**
  * Attempt to embed text using OpenAI text-embedding-3-small.
- * Returns null if API key is not available or call fails.
+ * Returns null if API key is not available, PHI_POLICY=block, or the call fails.
+ * Under PHI_POLICY=redact, PHI is replaced with placeholders before sending.
  */
 export async function embedText(text: string): Promise<EmbeddingVector | null> {
   if (!config.openaiApiKey || !config.useEmbeddings) return null;
+  if (config.phiPolicy === "block") return null;
 
   try {
     // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -24,7 +27,7 @@ export async function embedText(text: string): Promise<EmbeddingVector | null> {
     const client = new OpenAI.default({ apiKey: config.openaiApiKey });
     const res = await client.embeddings.create({
       model: config.openaiEmbeddingModel,
-      input: text.slice(0, 8000), // API limit guard
+      input: (redactorForPolicy()?.redact(text) ?? text).slice(0, 8000), // API limit guard
     });
     return res.data[0]?.embedding ?? null;
   } catch (err) {
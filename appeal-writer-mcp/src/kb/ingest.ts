@@ -2,7 +2,7 @@ import { randomUUID } from "crypto";
 import { config, log } from "../config";
 import { ChunkRecord, IngestOptions, KnowledgeDoc } from "../types";
 import { extractText } from "../parsers/text";
-import { extractPdf } from "../parsers/pdf";
+import { extractPdf, PdfOcrSummary } from "../parsers/pdf";
 import { extractDocx } from "../parsers/docx";
 import { chunkText } from "../utils/chunker";
 import { stableId, chunkId } from "../utils/hash";
@@ -14,6 +14,7 @@ export interface IngestResult {
   docId: string;
   chunks: number;
   warnings: string[];
+  ocr?: PdfOcrSummary;
 }
 
 export interface IngestInput {
@@ -35,7 +36,7 @@ async function parseBuffer(
   mimeType: string,
   filename: string,
   enableOcr: boolean
-): Promise<{ text: string; warnings: string[] }> {
+): Promise<{ text: string; warnings: string[]; ocr?: PdfOcrSummary }> {
   const mt = mimeType.toLowerCase();
   const ext = filename.split(".").pop()?.toLowerCase() ?? "";
 
@@ -89,7 +90,11 @@ export async function ingestDocuments(
     }
 
     // Parse to text
-    const { text: rawText, warnings: parseWarnings } = await parseBuffer(
+    const {
+      text: rawText,
+      warnings: parseWarnings,
+      ocr,
+    } = await parseBuffer(
       buffer,
       input.mimeType,
       input.filename,
@@ -99,7 +104,7 @@ export async function ingestDocuments(
 
     if (!rawText || rawText.trim().length === 0) {
       warnings.push(`No text extracted from ${input.filename}`);
-      results.push({ docId: input.docId ?? "unknown", chunks: 0, warnings });
+      results.push({ docId: input.docId ?? "unknown", chunks: 0, warnings, ocr });
       continue;
     }
 
@@ -162,7 +167,7 @@ export async function ingestDocuments(
     // Persist to SQLite
     store.upsertDoc(doc, chunkRecords);
 
-    results.push({ docId, chunks: chunkRecords.length, warnings });
+    results.push({ docId, chunks: chunkRecords.length, warnings, ocr });
     log("info", `Ingested document`, { docId, chunks: chunkRecords.length });
   }
 
@@ -1,14 +1,28 @@
+import { ocrPdf, pagesNeedingOcr } from "@overturn/ocr";
 import { log } from "../config";
 
+export interface PdfOcrSummary {
+  engine: string;
+  pages: Array<{ pageNumber: number; confidence: number; wordCount: number }>;
+  meanConfidence: number | null;
+}
+
+interface PdfPageData {
+  pageIndex: number;
+  getTextContent(options: Record<string, unknown>): Promise<{
+    items: Array<{ str: string; transform: number[] }>;
+  }>;
+}
+
 /**
  * PDF text extractor using pdf-parse.
- * If the PDF is scanned (image-only) and OCR is not enabled,
- * returns the best available text and flags the warning.
+ * Pages with too little text to be a real text layer are treated as scanned
+ * and, when OCR is enabled, recognized locally with the shared OCR package.
  */
 export async function extractPdf(
   buffer: Buffer,
-  enableOcr = false
-): Promise<{ text: string; warnings: string[] }> {
+  enableOcr = true
+): Promise<{ text: string; warnings: string[]; ocr?: PdfOcrSummary }> {
   const warnings: string[] = [];
 
   try {
@@ -19,25 +33,59 @@ export async function extractPdf(
       opts?: Record<string, unknown>
     ) => Promise<{ text: string; numpages: number }>;
 
-    const result = await pdfParse(buffer, { max: 0 });
+    const pageTexts: string[] = [];
+    const result = await pdfParse(buffer, {
+      max: 0,
+      pagerender: async (pageData: PdfPageData) => {
+        const pageText = await renderPage(pageData);
+        pageTexts[pageData.pageIndex] = pageText;
+        return pageText;
+      },
+    });
     let text = result.text ?? "";
+    let ocr: PdfOcrSummary | undefined;
 
-    // Heuristic: if text is very short relative to pages, likely scanned
-    const avgCharsPerPage = text.length / Math.max(result.numpages, 1);
-    if (avgCharsPerPage < 80) {
+    const scannedPages = pagesNeedingOcr(
+      Array.from({ length: result.numpages }, (_, i) => pageTexts[i] ?? "")
+    );
+    if (scannedPages.length > 0) {
       if (enableOcr) {
-        warnings.push(
-          "PDF appears to be scanned. OCR is enabled but not implemented in baseline — returning partial text."
-        );
+        try {
+          const recognized = await ocrPdf(buffer, { pages: scannedPages });
+          for (const page of recognized.pages) {
+            const index = page.page_number - 1;
+            if (page.text.length > (pageTexts[index] ?? "").trim().length) {
+              pageTexts[index] = page.text;
+            }
+            warnings.push(
+              `Page ${page.page_number} appears to be scanned; text recognized with OCR (confidence ${page.confidence}).`
+            );
+          }
+          text = pageTexts.join("\n\n");
+          ocr = {
+            engine: recognized.engine,
+            pages: recognized.pages.map((page) => ({
+              pageNumber: page.page_number,
+              confidence: page.confidence,
+              wordCount: page.word_count,
+            })),
+            meanConfidence: recognized.mean_confidence,
+          };
+        } catch (err) {
+          log("error", "PDF OCR failed", err);
+          warnings.push(
+            `PDF appears to be scanned but OCR failed: ${err instanceof Error ? err.message : String(err)}. Returning partial text.`
+          );
+        }
       } else {
         warnings.push(
-          "PDF appears to be scanned (image-only). Enable OCR (ENABLE_OCR_DEFAULT=true or enableOcr option) for full extraction. Returning partial text."
+          `PDF pages ${scannedPages.join(", ")} appear to be scanned (image-only). Enable OCR (ENABLE_OCR_DEFAULT=true) for full extraction. Returning partial text.`
         );
       }
     }
 
     text = text.replace(/\r\n/g, "\n").replace(/\n{4,}/g, "\n\n\n").trim();
-    return { text, warnings };
+    return { text, warnings, ocr };
   } catch (err) {
     log("error", "PDF parsing failed", err);
     warnings.push(
@@ -46,3 +94,18 @@ export async function extractPdf(
     return { text: "", warnings };
   }
 }
+
+/** pdf-parse's default page renderer: items on the same baseline share a line. */
+async function renderPage(pageData: PdfPageData): Promise<string> {
+  const content = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+  let lastY: number | undefined;
+  let text = "";
+  for (const item of content.items) {
+    text += lastY === item.transform[5] || lastY === undefined ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return text;
+}
@@ -0,0 +1,24 @@
+import { KnownPhiValue, PhiRedactor } from "@overturn/phi-redaction";
+import { config } from "../config";
+import { DenialCase, UserContext } from "../types";
+
+/** PHI already identified in the case, redacted even where no pattern would catch it. */
+export function knownPhiForCase(
+  dc: DenialCase,
+  userContext: UserContext = {}
+): KnownPhiValue[] {
+  return [
+    { category: "NAME", value: dc.memberName.value },
+    { category: "MEMBER_ID", value: dc.memberId.value },
+    { category: "ADDRESS", value: userContext.patientAddress },
+    { category: "PHONE", value: userContext.patientPhone },
+  ];
+}
+
+/** Redactor for one outbound call, or null when PHI_POLICY is not "redact". */
+export function redactorForPolicy(
+  knownValues: KnownPhiValue[] = [],
+  policy = config.phiPolicy
+): PhiRedactor | null {
+  return policy === "redact" ? new PhiRedactor(knownValues) : null;
+}
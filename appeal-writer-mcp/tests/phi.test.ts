@@ -0,0 +1,108 @@
+/**
+ * PHI redaction unit tests.
+ *
+ * Tests:
+ *  - Case PHI is replaced with placeholders before text leaves the machine
+ *  - Labelled PHI is also redacted where it repeats unlabelled, in later texts too
+ *  - A name with a middle initial is also redacted without it and surname first
+ *  - Placeholders in an LLM response are re-hydrated to the original values
+ *  - PHI_POLICY parsing falls back to redact
+ */
+
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+
+import { PhiRedactor, resolvePhiPolicy } from "@overturn/phi-redaction";
+import { knownPhiForCase, redactorForPolicy } from "../src/utils/phi";
+import { DenialCase } from "../src/types";
+
+const SAMPLE_DENIAL_CASE: DenialCase = JSON.parse(
+  fs.readFileSync(
+    path.join(__dirname, "../examples/sample_denial_case.json"),
+    "utf-8"
+  )
+);
+
+const USER_CONTEXT = {
+  patientAddress: "42 Elm Road, Boston, MA 02118",
+  patientPhone: "617-555-0142",
+};
+
+describe("phi redaction", () => {
+  it("redacts the member name, member ID and user contact details", () => {
+    const redactor = redactorForPolicy(
+      knownPhiForCase(SAMPLE_DENIAL_CASE, USER_CONTEXT),
+      "redact"
+    );
+    const redacted = redactor!.redact(
+      `Member: Jane Doe (ID XYZ123456789), 42 Elm Road, Boston, MA 02118, tel 617-555-0142. DOB: 03/14/1975. Claim denied under CO-50.`
+    );
+
+    expect(redacted).not.toContain("Jane Doe");
+    expect(redacted).not.toContain("XYZ123456789");
+    expect(redacted).not.toContain("Elm Road");
+    expect(redacted).not.toContain("617-555-0142");
+    expect(redacted).not.toContain("03/14/1975");
+    expect(redacted).toContain("CO-50");
+  });
+
+  it("redacts unlabelled repeats of PHI found next to a label", () => {
+    const redactor = new PhiRedactor();
+    const first = redactor.redact(
+      "Patient Name: Jane Doe\nMember ID: XYZ123456789\nAddress: PO Box 44\n" +
+        "We reviewed the claim for Jane Doe, subscriber XYZ123456789, who receives mail at PO Box 44."
+    );
+    // A later chunk with no labels at all.
+    const second = redactor.redact("Ms. Doe may appeal. Doe, Jane (XYZ123456789) was notified.");
+
+    for (const text of [first, second]) {
+      expect(text).not.toContain("Jane");
+      expect(text).not.toContain("Doe");
+      expect(text).not.toContain("XYZ123456789");
+      expect(text).not.toContain("PO Box 44");
+    }
+    expect(redactor.rehydrate(second)).toBe(
+      "Ms. Doe may appeal. Doe, Jane (XYZ123456789) was notified."
+    );
+  });
+
+  it("redacts every order of a learned name with a middle initial", () => {
+    const redactor = new PhiRedactor();
+    const first = redactor.redact("PATIENT NAME: JANE Q DOE\nMember ID: XYZ123456789");
+    // Later chunks drop the middle initial, put the surname first or add a period.
+    const second = redactor.redact(
+      "Jane Doe was seen on 03/04/2024. Doe, Jane Q. signed the form; Doe, Jane called back. Jane Q. Doe and Ms. Doe were notified."
+    );
+
+    for (const token of ["JANE", "DOE"]) {
+      expect(first.toUpperCase()).not.toContain(token);
+      expect(second.toUpperCase()).not.toContain(token);
+    }
+    expect(second).toContain("signed the form");
+  });
+
+  it("re-hydrates placeholders in a parsed response", () => {
+    const redactor = redactorForPolicy(knownPhiForCase(SAMPLE_DENIAL_CASE), "redact")!;
+    const redacted = redactor.redact("Re: Jane Doe, member XYZ123456789");
+    const namePlaceholder = redacted.match(/\[PHI_NAME_\d+\]/)![0];
+
+    const response = redactor.rehydrateValue({
+      sections: [{ id: "header", content: `Appeal for ${namePlaceholder}`, citationIds: [] }],
+    });
+
+    expect(response.sections[0].content).toBe("Appeal for Jane Doe");
+    expect(redactor.summary().categories).toMatchObject({ NAME: 1, MEMBER_ID: 1 });
+  });
+
+  it("returns no redactor unless the policy is redact", () => {
+    expect(redactorForPolicy([], "allow")).toBeNull();
+    expect(redactorForPolicy([], "block")).toBeNull();
+  });
+
+  it("falls back to redact for unknown PHI_POLICY values", () => {
+    expect(resolvePhiPolicy("BLOCK")).toBe("block");
+    expect(resolvePhiPolicy("sometimes")).toBe("redact");
+    expect(resolvePhiPolicy(undefined)).toBe("redact");
+  });
+});
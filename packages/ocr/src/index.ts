@@ -0,0 +1,255 @@
+import { createCanvas, ImageData } from "@napi-rs/canvas";
+import engData from "@tesseract.js-data/eng";
+import { PDFParse } from "pdf-parse";
+import { createWorker } from "tesseract.js";
+import * as UTIF from "utif2";
+
+/** Top-left origin, in PDF points for PDFs and in pixels for images. */
+export interface OcrBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: OcrBox;
+}
+
+export interface OcrPage {
+  page_number: number;
+  /** Page size in the same units as word bounding boxes. */
+  width: number;
+  height: number;
+  text: string;
+  /** Tesseract's mean word confidence for the page, 0-1. */
+  confidence: number;
+  word_count: number;
+  words: OcrWord[];
+}
+
+export interface OcrResult {
+  engine: "tesseract.js";
+  language: string;
+  pages: OcrPage[];
+  mean_confidence: number | null;
+}
+
+export interface OcrOptions {
+  /** 1-based pages to recognize; all pages when omitted. */
+  pages?: number[];
+  /** Rasterization scale; 2 renders at roughly 150 DPI for letter-size pages. */
+  scale?: number;
+}
+
+/** Pages with fewer non-whitespace characters than this are treated as scanned images. */
+export const MIN_CHARS_PER_PAGE = 80;
+
+/** Returns the 1-based numbers of pages whose extracted text is too short to be real text. */
+export const pagesNeedingOcr = (
+  pageTexts: string[],
+  minCharsPerPage = MIN_CHARS_PER_PAGE
+): number[] =>
+  pageTexts.flatMap((text, index) =>
+    text.replace(/\s+/g, "").length < minCharsPerPage ? [index + 1] : []
+  );
+
+interface PageImage {
+  pageNumber: number;
+  /** Encoded image (PNG, JPEG, ...) that tesseract can read. */
+  data: Uint8Array;
+  width: number;
+  height: number;
+  /** Image pixels per output unit. */
+  scale: number;
+}
+
+/**
+ * Rasterizes PDF pages and recognizes their text with tesseract.js. Runs
+ * entirely locally: the English model ships in @tesseract.js-data/eng and
+ * nothing is downloaded or cached.
+ */
+export const ocrPdf = async (
+  data: Uint8Array,
+  options: OcrOptions = {}
+): Promise<OcrResult> => {
+  // pdf.js may transfer the buffer to its worker, so hand it a copy.
+  const parser = new PDFParse({ data: new Uint8Array(data) });
+  let screenshots;
+  try {
+    screenshots = await parser.getScreenshot({
+      scale: options.scale ?? 2,
+      imageDataUrl: false,
+      imageBuffer: true,
+      ...(options.pages ? { partial: options.pages } : {}),
+    });
+  } finally {
+    await parser.destroy();
+  }
+  return recognizePages(screenshots.pages);
+};
+
+/** Recognizes a single PNG, JPEG, BMP or WebP image as page 1. Boxes are in pixels. */
+export const ocrImage = async (data: Uint8Array): Promise<OcrResult> => {
+  const size = imageSize(Buffer.from(data));
+  if (!size) {
+    throw new Error(
+      "Image header could not be decoded; expected a PNG, JPEG, BMP or WebP image."
+    );
+  }
+  return recognizePages([{ pageNumber: 1, data, ...size, scale: 1 }]);
+};
+
+/** Recognizes every page of a (multi-page) TIFF, including CCITT fax encodings. Boxes are in pixels. */
+export const ocrTiff = async (data: Uint8Array): Promise<OcrResult> => {
+  const buffer = Buffer.from(data);
+  const pages = UTIF.decode(buffer)
+    .filter((ifd) => ifd.t256 !== undefined && ifd.t257 !== undefined)
+    .map((ifd, index) => {
+      UTIF.decodeImage(buffer, ifd);
+      const canvas = createCanvas(ifd.width, ifd.height);
+      canvas
+        .getContext("2d")
+        .putImageData(
+          new ImageData(new Uint8ClampedArray(UTIF.toRGBA8(ifd)), ifd.width, ifd.height),
+          0,
+          0
+        );
+      return {
+        pageNumber: index + 1,
+        data: canvas.toBuffer("image/png"),
+        width: ifd.width,
+        height: ifd.height,
+        scale: 1,
+      };
+    });
+  if (pages.length === 0) {
+    throw new Error("TIFF contains no decodable image pages.");
+  }
+  return recognizePages(pages);
+};
+
+const recognizePages = async (images: PageImage[]): Promise<OcrResult> => {
+  const worker = await createWorker(engData.code, undefined, {
+    langPath: engData.langPath,
+    gzip: engData.gzip,
+    cacheMethod: "none",
+  });
+  try {
+    const pages: OcrPage[] = [];
+    for (const image of images) {
+      const { data: result } = await worker.recognize(
+        Buffer.from(image.data),
+        {},
+        { text: true, blocks: true }
+      );
+      const text = result.text.trim();
+      const toUnits = (pixels: number) =>
+        Math.round((pixels / image.scale) * 10) / 10;
+      const words = (result.blocks ?? [])
+        .flatMap((block) => block.paragraphs)
+        .flatMap((paragraph) => paragraph.lines)
+        .flatMap((line) => line.words)
+        .filter((word) => word.text.trim().length > 0)
+        .map((word) => ({
+          text: word.text,
+          confidence: Math.round(word.confidence) / 100,
+          bbox: {
+            x: toUnits(word.bbox.x0),
+            y: toUnits(word.bbox.y0),
+            width: toUnits(word.bbox.x1 - word.bbox.x0),
+            height: toUnits(word.bbox.y1 - word.bbox.y0),
+          },
+        }));
+      pages.push({
+        page_number: image.pageNumber,
+        width: toUnits(image.width),
+        height: toUnits(image.height),
+        text,
+        confidence: Math.round(result.confidence) / 100,
+        word_count: text.split(/\s+/).filter(Boolean).length,
+        words,
+      });
+    }
+
+    const recognized = pages.filter((page) => page.word_count > 0);
+    return {
+      engine: "tesseract.js",
+      language: engData.code,
+      pages,
+      mean_confidence:
+        recognized.length > 0
+          ? Math.round(
+              (recognized.reduce((sum, page) => sum + page.confidence, 0) /
+                recognized.length) *
+                100
+            ) / 100
+          : null,
+    };
+  } finally {
+    await worker.terminate();
+  }
+};
+
+// Reads dimensions from the PNG IHDR chunk, a JPEG start-of-frame marker, the
+// BMP info header or the WebP VP8/VP8L/VP8X header without decoding pixels,
+// so a corrupt image fails here with a clear error.
+const imageSize = (buffer: Buffer): { width: number; height: number } | null => {
+  if (buffer.length >= 24 && buffer.toString("latin1", 12, 16) === "IHDR") {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+  if (buffer.length >= 26 && buffer.toString("latin1", 0, 2) === "BM") {
+    // A 12-byte OS/2 core header has 16-bit sizes; later headers have 32-bit
+    // ones, with a negative height for top-down rows.
+    return buffer.readUInt32LE(14) === 12
+      ? { width: buffer.readUInt16LE(18), height: buffer.readUInt16LE(20) }
+      : { width: Math.abs(buffer.readInt32LE(18)), height: Math.abs(buffer.readInt32LE(22)) };
+  }
+  if (
+    buffer.length >= 30 &&
+    buffer.toString("latin1", 0, 4) === "RIFF" &&
+    buffer.toString("latin1", 8, 12) === "WEBP"
+  ) {
+    return webpSize(buffer);
+  }
+  let offset = 2;
+  while (buffer[0] === 0xff && buffer[1] === 0xd8 && offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return null;
+    }
+    const marker = buffer[offset + 1];
+    const length = buffer.readUInt16BE(offset + 2);
+    const isStartOfFrame =
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const webpSize = (buffer: Buffer): { width: number; height: number } | null => {
+  switch (buffer.toString("latin1", 12, 16)) {
+    case "VP8 ":
+      // Lossy: 14-bit sizes after the 9D 01 2A key frame start code.
+      return buffer[23] === 0x9d && buffer[24] === 0x01 && buffer[25] === 0x2a
+        ? { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff }
+        : null;
+    case "VP8L": {
+      // Lossless: 14-bit width-1 and height-1 packed after the 0x2F signature.
+      if (buffer[20] !== 0x2f) {
+        return null;
+      }
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case "VP8X":
+      // Extended: 24-bit canvas width-1 and height-1.
+      return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+    default:
+      return null;
+  }
+};
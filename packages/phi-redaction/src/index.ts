@@ -0,0 +1,296 @@
+export type PhiPolicy = "redact" | "allow" | "block";
+
+export type PhiCategory =
+  | "NAME"
+  | "ADDRESS"
+  | "DATE_OF_BIRTH"
+  | "MEMBER_ID"
+  | "MEDICAL_RECORD_NUMBER"
+  | "ACCOUNT_NUMBER"
+  | "SSN"
+  | "PHONE"
+  | "EMAIL";
+
+export interface KnownPhiValue {
+  category: PhiCategory;
+  value: string | null | undefined;
+}
+
+export interface PhiRedactionSummary {
+  policy: PhiPolicy;
+  applied: boolean;
+  redacted_values: number;
+  categories: Partial<Record<PhiCategory, number>>;
+}
+
+export const PHI_POLICIES: readonly PhiPolicy[] = ["redact", "allow", "block"];
+
+/**
+ * Reads a PHI_POLICY setting. Unknown or missing values fall back to
+ * "redact" so a typo never sends unredacted text.
+ */
+export const resolvePhiPolicy = (value: string | undefined): PhiPolicy => {
+  const normalized = value?.trim().toLowerCase();
+  return PHI_POLICIES.find((policy) => policy === normalized) ?? "redact";
+};
+
+export class PhiPolicyBlockedError extends Error {
+  constructor(service: string) {
+    super(
+      `PHI_POLICY=block: text was not sent to ${service}. Set PHI_POLICY=redact or allow to permit external calls.`
+    );
+    this.name = "PhiPolicyBlockedError";
+  }
+}
+
+// Words that end a labelled name; "Patient Name: Jane Doe Member ID: 1" stops at "Member".
+const NAME_STOP_WORDS = new Set([
+  "member",
+  "subscriber",
+  "patient",
+  "id",
+  "dob",
+  "date",
+  "claim",
+  "account",
+  "policy",
+  "group",
+  "address",
+  "dos",
+  "provider",
+  "phone",
+  "mrn",
+  "npi",
+]);
+
+const NAME_TOKEN = "[A-Za-z][A-Za-z'.-]*";
+const DATE_VALUE =
+  "\\d{1,2}[/-]\\d{1,2}[/-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|[A-Za-z]{3,9}\\.? \\d{1,2},? \\d{4}";
+const STREET_SUFFIX =
+  "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Way|Court|Ct|Place|Pl|Circle|Cir|Terrace|Ter|Parkway|Pkwy|Highway|Hwy";
+
+/** Patterns whose first capture group (or whole match) is PHI. Labels are matched case-insensitively. */
+const PHI_PATTERNS: Array<{ category: PhiCategory; regex: RegExp }> = [
+  {
+    category: "NAME",
+    regex: new RegExp(
+      `\\b(?:patient|member|subscriber|insured|beneficiary|enrollee|policy ?holder)(?:'s)?(?:\\s+name\\s*[:#-]?|\\s*:)[ \\t]*(${NAME_TOKEN}(?:[ \\t]+${NAME_TOKEN}){0,3})`,
+      "gi"
+    ),
+  },
+  {
+    category: "NAME",
+    regex: new RegExp(
+      `\\bDear[ \\t]+(?:(?:Mr|Mrs|Ms|Mx|Dr)\\.?[ \\t]+)?([A-Z][A-Za-z'.-]*(?:[ \\t]+[A-Z][A-Za-z'.-]*){0,2})`,
+      "g"
+    ),
+  },
+  {
+    category: "DATE_OF_BIRTH",
+    regex: new RegExp(
+      `\\b(?:date of birth|birth ?date|dob|d\\.o\\.b\\.?)\\s*[:#-]?\\s*(${DATE_VALUE})`,
+      "gi"
+    ),
+  },
+  {
+    category: "MEMBER_ID",
+    regex:
+      /\b(?:member|subscriber|insured|beneficiary|enrollee|policy ?holder|medicare|medicaid|health plan)\s*(?:id|identification|number|no\.?|#)(?:\s*(?:number|no\.?|#))?\s*[:#-]?\s*([A-Z0-9][A-Z0-9-]{3,})/gi,
+  },
+  {
+    category: "MEDICAL_RECORD_NUMBER",
+    regex:
+      /\b(?:mrn|medical record(?:\s*(?:number|no\.?|#))?)\s*[:#-]?\s*([A-Z0-9][A-Z0-9-]{3,})/gi,
+  },
+  {
+    category: "ACCOUNT_NUMBER",
+    regex:
+      /\b(?:patient account|account)\s*(?:number|no\.?|#)\s*[:#-]?\s*([A-Z0-9][A-Z0-9-]{3,})/gi,
+  },
+  { category: "SSN", regex: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    category: "EMAIL",
+    regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    category: "PHONE",
+    regex: /(?:\+1[ .-]?)?(?:\(\d{3}\)\s?|\b\d{3}[ .-])\d{3}[ .-]\d{4}\b/g,
+  },
+  {
+    category: "ADDRESS",
+    regex: new RegExp(
+      `\\b\\d{1,6}[ \\t]+(?:[A-Z0-9][A-Za-z0-9.'-]*[ \\t]+){1,4}(?:${STREET_SUFFIX})\\b\\.?(?:,?[ \\t]+(?:Apt|Unit|Suite|Ste|#)\\.?[ \\t]*[A-Za-z0-9-]+)?`,
+      "g"
+    ),
+  },
+  {
+    category: "ADDRESS",
+    regex: /\b[A-Z][A-Za-z.'-]*(?:[ \t]+[A-Z][A-Za-z.'-]*){0,3},[ \t]*[A-Z]{2}[ \t]+\d{5}(?:-\d{4})?\b/g,
+  },
+  { category: "ADDRESS", regex: /\bP\.?[ \t]?O\.?[ \t]+Box[ \t]+\d+\b/gi },
+];
+
+const PLACEHOLDER_REGEX = /\[PHI_([A-Z_]+?)_(\d+)\]/g;
+
+/**
+ * Replaces PHI with placeholders such as [PHI_NAME_1] and restores the
+ * original values in text that comes back. One instance should cover one
+ * outbound exchange so placeholders stay consistent across its requests.
+ */
+export class PhiRedactor {
+  private readonly knownValues: KnownPhiValue[];
+  private readonly learnedValues: KnownPhiValue[] = [];
+  private readonly placeholderByValue = new Map<string, string>();
+  private readonly valueByPlaceholder = new Map<string, string>();
+  private readonly counts: Partial<Record<PhiCategory, number>> = {};
+
+  constructor(knownValues: KnownPhiValue[] = []) {
+    this.knownValues = knownValues.filter(
+      (entry) => (entry.value ?? "").trim().length >= 3
+    );
+  }
+
+  redact(text: string): string {
+    const patternMatches: Array<{ start: number; end: number; category: PhiCategory }> = [];
+    for (const { category, regex } of PHI_PATTERNS) {
+      for (const match of text.matchAll(regex)) {
+        let value = match[1] ?? match[0];
+        if (category === "NAME") {
+          value = trimNameValue(value);
+          if (!value) {
+            continue;
+          }
+        }
+        const start = match.index + (match[1] ? match[0].lastIndexOf(match[1]) : 0);
+        patternMatches.push({ start, end: start + value.length, category });
+        this.learn(category, value);
+      }
+    }
+
+    // Values found next to a label are redacted wherever they appear again,
+    // in this text and in every later one (e.g. the next chunk of a packet).
+    const matches: Array<{ start: number; end: number; category: PhiCategory }> = [];
+    for (const { category, value } of [...this.knownValues, ...this.learnedValues]) {
+      for (const literal of literalPatterns(category, value!.trim())) {
+        for (const match of text.matchAll(literal)) {
+          matches.push({ start: match.index, end: match.index + match[0].length, category });
+        }
+      }
+    }
+    matches.push(...patternMatches);
+
+    // Earlier and longer matches win; known and learned values are listed first so they beat patterns at the same position.
+    const accepted = matches
+      .map((match, order) => ({ ...match, order }))
+      .sort((a, b) => a.start - b.start || b.end - a.end || a.order - b.order)
+      .filter(
+        (match, index, sorted) =>
+          !sorted.slice(0, index).some((other) => other.end > match.start)
+      );
+
+    let result = "";
+    let position = 0;
+    for (const match of accepted) {
+      result += text.slice(position, match.start);
+      result += this.placeholderFor(match.category, text.slice(match.start, match.end));
+      position = match.end;
+    }
+    return result + text.slice(position);
+  }
+
+  rehydrate(text: string): string {
+    return text.replace(
+      PLACEHOLDER_REGEX,
+      (placeholder) => this.valueByPlaceholder.get(placeholder) ?? placeholder
+    );
+  }
+
+  /** Restores placeholders in every string of a parsed JSON value. */
+  rehydrateValue<T>(value: T): T {
+    if (typeof value === "string") {
+      return this.rehydrate(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((entry) => this.rehydrateValue(entry)) as T;
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, this.rehydrateValue(entry)])
+      ) as T;
+    }
+    return value;
+  }
+
+  summary(policy: PhiPolicy = "redact"): PhiRedactionSummary {
+    return {
+      policy,
+      applied: this.valueByPlaceholder.size > 0,
+      redacted_values: this.valueByPlaceholder.size,
+      categories: { ...this.counts },
+    };
+  }
+
+  private learn(category: PhiCategory, value: string): void {
+    const normalized = normalizeValue(value);
+    if (
+      normalized.length >= 3 &&
+      ![...this.knownValues, ...this.learnedValues].some(
+        (entry) => entry.category === category && normalizeValue(entry.value ?? "") === normalized
+      )
+    ) {
+      this.learnedValues.push({ category, value });
+    }
+  }
+
+  private placeholderFor(category: PhiCategory, value: string): string {
+    const key = `${category}:${normalizeValue(value)}`;
+    const existing = this.placeholderByValue.get(key);
+    if (existing) {
+      return existing;
+    }
+    const count = (this.counts[category] ?? 0) + 1;
+    this.counts[category] = count;
+    const placeholder = `[PHI_${category}_${count}]`;
+    this.placeholderByValue.set(key, placeholder);
+    this.valueByPlaceholder.set(placeholder, value);
+    return placeholder;
+  }
+}
+
+const trimNameValue = (value: string): string => {
+  const tokens = value.split(/[ \t]+/);
+  const stop = tokens.findIndex((token) =>
+    NAME_STOP_WORDS.has(token.toLowerCase().replace(/[^a-z]/g, ""))
+  );
+  const kept = stop === -1 ? tokens : tokens.slice(0, stop);
+  // Names start with a capital; "patient: unknown" or "member: see below" are not PHI.
+  return kept.length > 0 && /^[A-Z]/.test(kept[0]) ? kept.join(" ") : "";
+};
+
+const normalizeValue = (value: string): string =>
+  value.trim().toLowerCase().replace(/\s+/g, " ");
+
+// A name also matches as "Ms. Doe", "Doe, Jane" or "Doe, Jane Q.", with or
+// without its middle names; whitespace inside any value may vary.
+const literalPatterns = (category: PhiCategory, value: string): RegExp[] => {
+  const flexible = (part: string) => escapeRegExp(part).replace(/\s+/g, "\\s+");
+  const patterns = [new RegExp(`\\b${flexible(value)}\\b`, "gi")];
+  const tokens = value.split(/\s+/);
+  if (category === "NAME" && tokens.length > 1) {
+    const surname = escapeRegExp(tokens[tokens.length - 1]);
+    const given = escapeRegExp(tokens[0]);
+    const middles = tokens
+      .slice(1, -1)
+      .map((token) => `(?:\\s+${escapeRegExp(token.replace(/\.$/, ""))}\\.?)?`)
+      .join("");
+    patterns.push(
+      new RegExp(`\\b${given}${middles}\\s+${surname}\\b`, "gi"),
+      new RegExp(`\\b(?:Mr|Mrs|Ms|Mx|Dr)\\.?\\s+${surname}\\b`, "gi"),
+      new RegExp(`\\b${surname},\\s*${given}${middles}\\b`, "gi")
+    );
+  }
+  return patterns;
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");